@@ -1,64 +1,439 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
-  Play, Pause, Download, Trash2, Settings, 
+  Play, Pause, Download, Settings, 
   ZoomIn, ZoomOut, Image as ImageIcon, Layers, 
   RefreshCw, FileImage, Grid, Clock, SkipForward,
-  Loader2, CheckCircle
+  Loader2, CheckCircle, X, ArrowRight, ArrowLeft, ArrowLeftRight, Repeat, Save, FolderOpen, History, Undo2, Redo2
 } from 'lucide-react';
 import { Dropzone } from './components/Dropzone';
 import { CanvasPlayer } from './components/CanvasPlayer';
-import { loadImageData, generateSpriteSheet, downloadDataUrl, readFileAsDataURL, generateGif, downloadBlob } from './utils/imageUtils';
-import { AppMode, FrameData, SpriteSheetConfig } from './types';
+import { FrameDurationEditor } from './components/FrameDurationEditor';
+import { FrameLayoutSettings } from './components/FrameLayoutSettings';
+import { FrameTimeline } from './components/FrameTimeline';
+import { OnionSkinSettings } from './components/OnionSkinSettings';
+import { FilterStackPanel } from './components/FilterStackPanel';
+import { OverlayPanel } from './components/OverlayPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ExportSettings, EXPORT_FORMATS } from './components/ExportSettings';
+import { SpriteSheetExport } from './components/SpriteSheetExport';
+import { SpriteSlicingSettings } from './components/SpriteSlicingSettings';
+import { SpriteGridEditor } from './components/SpriteGridEditor';
+import { SpriteAnalysisPanel } from './components/SpriteAnalysisPanel';
+import { AtlasPanel } from './components/AtlasPanel';
+import { loadImageFile, loadGifFrames, generateSpriteSheet, downloadDataUrl, exportAnimation, estimateGifSize, ExportError, EXPORT_FILE_EXTENSIONS, downloadBlob, getImagePixels, measureFrameContent } from './utils/imageUtils';
+import { getFrameDuration } from './utils/frameRenderer';
+import { getFilterFrameKey } from './utils/frameFilters';
+import { createExportOptions, DEFAULT_BACKGROUND_COLOR, DEFAULT_FPS } from './utils/exportOptions';
+import { createSpriteConfig, getSpriteCellCount, getSpriteFrameCount } from './utils/spriteSlicing';
+import { computeFrameLayout, createFrameLayoutConfig, getFrameOffset, getLayoutSources } from './utils/frameLayout';
+import { createPlaybackConfig, getPlaybackRange, getPlaybackSequence } from './utils/playback';
+import { createProjectFile, hasProjectContent, parseProjectFile, restoreProject, PROJECT_FILE_EXTENSION, ProjectState } from './utils/projectFile';
+import { clearSession, loadSession, restoreSession, saveSession, StoredSession } from './utils/projectStorage';
+import { createHistory, describeSnapshotChange, getHistoryImageUrls, pushHistory, EditHistory, EditorSnapshot } from './utils/history';
+import { releaseUnusedImages } from './utils/imageCache';
+import { expandArchives, sortImportFiles } from './utils/fileImport';
+import { parseSpriteAtlas } from './utils/atlasParser';
+import { analyzeSpriteSheet, SpriteGridSuggestion, SpriteSheetAnalysis } from './utils/spriteAnalyzer';
+import { AppMode, FrameData, SpriteAtlas, SpriteSheetConfig, ExportFormat, ExportOptions, ExportStage, SpriteSheetExportOptions, Rect, FrameLayoutConfig, FrameOffset, PlaybackConfig, PlaybackDirection, OnionSkinConfig, ImportSortOrder, FrameFilter, Overlay } from './types';
+
+const PLAYBACK_DIRECTIONS: { value: PlaybackDirection; label: string; Icon: typeof ArrowRight }[] = [
+  { value: 'forward', label: '正向播放', Icon: ArrowRight },
+  { value: 'reverse', label: '倒放', Icon: ArrowLeft },
+  { value: 'pingpong', label: '往返播放', Icon: ArrowLeftRight },
+];
+
+// Quiet period after the last change before the session is written to IndexedDB
+const AUTOSAVE_DELAY = 1000;
+
+const IMPORT_SORT_ORDERS: { value: ImportSortOrder; label: string }[] = [
+  { value: 'name', label: '文件名 (自然排序)' },
+  { value: 'modified', label: '修改时间' },
+  { value: 'suffix', label: '末尾数字' },
+];
+// Repeated changes of the same setting within this window are one undo step
+const HISTORY_MERGE_WINDOW = 1000;
+
+// Playback further behind its frame clock than this (ms) resynchronizes
+const MAX_PLAYBACK_LAG = 1000;
+
+const EXPORT_STAGE_LABELS: Record<ExportStage, string> = {
+  loading: '读取图片',
+  rendering: '渲染帧',
+  encoding: '编码',
+};
 
 function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.MULTI_IMAGE);
   
   // Data State
   const [frames, setFrames] = useState<FrameData[]>([]);
-  const [spriteConfig, setSpriteConfig] = useState<SpriteSheetConfig>({
-    rows: 1,
-    cols: 1,
-    totalFrames: 1,
-    originalImage: null
-  });
+  const [selectedFrameIds, setSelectedFrameIds] = useState<string[]>([]);
+  const [importSortOrder, setImportSortOrder] = useState<ImportSortOrder>('name');
+  const [spriteConfig, setSpriteConfig] = useState<SpriteSheetConfig>(() => createSpriteConfig(null));
+  const [spriteAnalysis, setSpriteAnalysis] = useState<SpriteSheetAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   // Player State
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
-  const [fps, setFps] = useState(8);
+  const [fps, setFps] = useState(DEFAULT_FPS);
   const [scale, setScale] = useState(1);
-  const [backgroundColor, setBackgroundColor] = useState('#2d3748'); // gray-750
+  const [backgroundColor, setBackgroundColor] = useState(DEFAULT_BACKGROUND_COLOR);
 
   // Export State
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  const [exportStage, setExportStage] = useState<ExportStage>('loading');
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(createExportOptions);
+  const [gifSizeEstimate, setGifSizeEstimate] = useState<number | null>(null);
+  const [isEstimatingSize, setIsEstimatingSize] = useState(false);
+  const sizeEstimateRef = useRef<AbortController | null>(null);
+  const [sheetOptions, setSheetOptions] = useState<SpriteSheetExportOptions>({
+    cols: 4,
+    padding: 0,
+    extrude: 0,
+    powerOfTwo: false,
+    atlasFormat: 'hash'
+  });
+  const [isExportingSheet, setIsExportingSheet] = useState(false);
+  const [layoutConfig, setLayoutConfig] = useState<FrameLayoutConfig>(createFrameLayoutConfig);
+  const [contentBounds, setContentBounds] = useState<(Rect | null)[] | null>(null);
+  const [playback, setPlayback] = useState<PlaybackConfig>(createPlaybackConfig);
+  const [onionSkin, setOnionSkin] = useState<OnionSkinConfig>({
+    enabled: false,
+    before: 1,
+    after: 1,
+    opacity: 0.4,
+    beforeColor: '#ef4444',
+    afterColor: '#22c55e',
+  });
+  const [filters, setFilters] = useState<FrameFilter[]>([]);
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
+
+  // Project persistence
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // Undo history over the editable state
+  const editorSnapshot: EditorSnapshot = {
+    frames,
+    spriteConfig,
+    settings: { fps, backgroundColor, exportOptions, sheetOptions, layoutConfig, playback, filters, overlays },
+  };
+  const [history, setHistory] = useState<EditHistory>(() => createHistory(editorSnapshot, '初始状态'));
+  const historyLabelRef = useRef<string | null>(null); // Replaces the generated label of the next entry
+
+  // Source of a restored project or history step, whose in/out range must survive the reset below
+  const restoredSourceRef = useRef<{ mode: AppMode; image: FrameData | null } | null>(null);
 
   // Refs for loop
-  const timerRef = useRef<number | null>(null);
+  const playStepRef = useRef(0); // Position in the playback sequence
+  const loopsPlayedRef = useRef(0);
 
   // Computed total frames based on mode
   const totalPlayableFrames = mode === AppMode.MULTI_IMAGE 
     ? frames.length 
-    : spriteConfig.totalFrames;
+    : getSpriteFrameCount(spriteConfig);
+
+  // Content bounds only depend on the images and slicing, not on offsets or durations
+  const contentKey = layoutConfig.sizePolicy !== 'trim'
+    ? null
+    : mode === AppMode.MULTI_IMAGE
+      ? frames.map(f => f.url).join('|')
+      : JSON.stringify({ ...spriteConfig, originalImage: spriteConfig.originalImage?.url, frameOffsets: null, frameDurations: null });
+  // Keyed-out pixels no longer count as content
+  const boundsKey = contentKey === null ? null : `${contentKey}|${JSON.stringify(filters)}`;
 
-  // Animation Loop
   useEffect(() => {
-    if (isPlaying && totalPlayableFrames > 0) {
-      timerRef.current = window.setInterval(() => {
-        setCurrentFrameIndex((prev) => (prev + 1) % totalPlayableFrames);
-      }, 1000 / fps);
+    if (boundsKey === null) {
+      setContentBounds(null);
+      return;
     }
-
+    let cancelled = false;
+    measureFrameContent(mode, frames, spriteConfig, filters)
+      .then(bounds => {
+        if (!cancelled) setContentBounds(bounds);
+      })
+      .catch(error => console.error("Content measurement failed", error));
     return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
+      cancelled = true;
     };
-  }, [isPlaying, fps, totalPlayableFrames]);
+  }, [boundsKey]);
+
+  // Shared by the player and, through resolveFrameLayout, every exporter
+  const frameLayout = computeFrameLayout(getLayoutSources(mode, frames, spriteConfig, contentBounds), layoutConfig);
+  const exportFrameSize = totalPlayableFrames > 0
+    ? { width: frameLayout.width, height: frameLayout.height }
+    : { width: 0, height: 0 };
+
+  // Same frame order the exporters use
+  const playbackSequence = getPlaybackSequence(totalPlayableFrames, playback);
+  const playbackRange = getPlaybackRange(totalPlayableFrames, playback);
+
+  // Start from the current frame if it is part of the sequence
+  useEffect(() => {
+    if (!isPlaying || playbackSequence.length === 0) return;
+    const step = playbackSequence.indexOf(currentFrameIndex);
+    playStepRef.current = Math.max(0, step);
+    loopsPlayedRef.current = 0;
+    if (step < 0) setCurrentFrameIndex(playbackSequence[0]);
+  }, [isPlaying, playback, totalPlayableFrames]);
+
+  // Latest sequence and durations for the playback loop, which outlives renders
+  const playbackClock = {
+    sequence: playbackSequence,
+    loopCount: playback.loopCount,
+    getDuration: (index: number) => getFrameDuration(mode, frames, spriteConfig, index, fps),
+  };
+  const playbackClockRef = useRef(playbackClock);
+  playbackClockRef.current = playbackClock;
+
+  // Animation loop: a requestAnimationFrame frame clock. Each frame is due at
+  // an absolute time, so slow redraws drop frames instead of slowing down
+  useEffect(() => {
+    if (!isPlaying) return;
+    const clock = playbackClockRef.current;
+    let dueTime = performance.now() + clock.getDuration(clock.sequence[playStepRef.current] ?? 0);
+    let requestId = 0;
+
+    const tick = (now: number) => {
+      const { sequence, loopCount, getDuration } = playbackClockRef.current;
+      requestId = requestAnimationFrame(tick);
+      if (sequence.length === 0 || now < dueTime) return;
+      // After a long stall, e.g. a hidden tab, continue from now instead of catching up
+      if (now - dueTime > MAX_PLAYBACK_LAG) dueTime = now;
+
+      let step = Math.min(playStepRef.current, sequence.length - 1);
+      while (now >= dueTime) {
+        if (step + 1 >= sequence.length) {
+          loopsPlayedRef.current += 1;
+          // A finite loop count stops on the last frame, like the exported file
+          if (loopCount > 0 && loopsPlayedRef.current >= loopCount) {
+            cancelAnimationFrame(requestId);
+            setIsPlaying(false);
+            break;
+          }
+          step = 0;
+        } else {
+          step += 1;
+        }
+        dueTime += Math.max(1, getDuration(sequence[step]));
+      }
+      playStepRef.current = step;
+      setCurrentFrameIndex(sequence[step]);
+    };
+
+    requestId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(requestId);
+  }, [isPlaying]);
 
-  // Reset index when mode changes or data changes
+  // Reset index and in/out range when mode or the sprite sheet changes
   useEffect(() => {
     setCurrentFrameIndex(0);
     setIsPlaying(false);
-  }, [mode, frames.length, spriteConfig.originalImage]);
+    const restored = restoredSourceRef.current;
+    restoredSourceRef.current = null;
+    if (restored && restored.mode === mode && restored.image === spriteConfig.originalImage) return;
+    setPlayback(prev => ({ ...prev, inPoint: 0, outPoint: null }));
+  }, [mode, spriteConfig.originalImage]);
+
+  // The estimate is a full encode, so it only runs on request and any change makes it stale
+  useEffect(() => {
+    sizeEstimateRef.current?.abort();
+    setGifSizeEstimate(null);
+    setIsEstimatingSize(false);
+  }, [mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, exportOptions, filters, overlays]);
+
+  // Keep the index in range when frames are added or removed
+  useEffect(() => {
+    setCurrentFrameIndex(prev => Math.min(prev, Math.max(0, totalPlayableFrames - 1)));
+  }, [totalPlayableFrames]);
+
+  const getProjectState = (): ProjectState => ({
+    mode,
+    frames,
+    spriteConfig,
+    settings: { fps, backgroundColor, exportOptions, sheetOptions, layoutConfig, playback, filters, overlays, onionSkin },
+  });
+
+  // Set on every restore; the reset effect only runs (and clears it) when the source changes,
+  // so an unchanged source leaves nothing behind that a later real change could be taken for
+  const markRestoredSource = (nextMode: AppMode, image: FrameData | null) => {
+    restoredSourceRef.current = nextMode !== mode || image !== spriteConfig.originalImage
+      ? { mode: nextMode, image }
+      : null;
+  };
+
+  // Settings are merged over the current ones so projects from older versions keep working
+  const applyProjectState = (state: ProjectState) => {
+    const { settings } = state;
+    markRestoredSource(state.mode, state.spriteConfig.originalImage);
+    historyLabelRef.current = '打开项目';
+    setIsPlaying(false);
+    setMode(state.mode);
+    setFrames(state.frames);
+    setSelectedFrameIds([]);
+    setSpriteConfig(state.spriteConfig);
+    setSpriteAnalysis(null);
+    setCurrentFrameIndex(0);
+    if (settings.fps > 0) setFps(settings.fps);
+    if (settings.backgroundColor) setBackgroundColor(settings.backgroundColor);
+    setExportOptions(prev => ({ ...prev, ...settings.exportOptions }));
+    setSheetOptions(prev => ({ ...prev, ...settings.sheetOptions }));
+    setLayoutConfig(prev => ({ ...prev, ...settings.layoutConfig }));
+    setPlayback(prev => ({ ...prev, ...settings.playback }));
+    setOnionSkin(prev => ({ ...prev, ...settings.onionSkin }));
+    setFilters(settings.filters ?? []);
+    setOverlays(settings.overlays ?? []);
+  };
+
+  // Offer the autosaved session of the last visit, if it had any images
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (session && hasProjectContent(session.project)) setPendingSession(session);
+      })
+      .catch(error => console.error("Session lookup failed", error))
+      .finally(() => setSessionChecked(true));
+  }, []);
+
+  // Autosave; held back until the user has decided about the previous session
+  useEffect(() => {
+    if (!sessionChecked || pendingSession) return;
+    const timer = window.setTimeout(() => {
+      // Once every image is removed there is nothing left worth restoring
+      const hasContent = frames.length > 0 || spriteConfig.originalImage !== null;
+      (hasContent ? saveSession(getProjectState()) : clearSession())
+        .catch(error => console.error("Autosave failed", error));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [sessionChecked, pendingSession, mode, frames, spriteConfig, fps, backgroundColor, exportOptions, sheetOptions, layoutConfig, playback, filters, overlays, onionSkin]);
+
+  // Record every change of the editable state; stepping through history
+  // restores a recorded snapshot, which compares equal and is not recorded again
+  useEffect(() => {
+    const label = historyLabelRef.current;
+    historyLabelRef.current = null;
+    setHistory(prev => {
+      const current = prev.entries[prev.index].snapshot;
+      const change = describeSnapshotChange(current, editorSnapshot);
+      if (!change) return prev;
+      // Adding or removing frames is always its own step
+      const mergeWindow = label || current.frames.length !== frames.length ? 0 : HISTORY_MERGE_WINDOW;
+      return pushHistory(prev, { label: label ?? change, snapshot: editorSnapshot, time: Date.now() }, mergeWindow);
+    });
+  }, [frames, spriteConfig, fps, backgroundColor, exportOptions, sheetOptions, layoutConfig, playback, filters, overlays]);
+
+  // Free the decoded and object-URL copies of images no undo step can bring back
+  useEffect(() => {
+    const inUse = getHistoryImageUrls(history);
+    frames.forEach(frame => inUse.add(frame.url));
+    if (spriteConfig.originalImage) inUse.add(spriteConfig.originalImage.url);
+    releaseUnusedImages(inUse);
+  }, [history, frames, spriteConfig.originalImage]);
+
+  const applySnapshot = (snapshot: EditorSnapshot) => {
+    const { settings } = snapshot;
+    markRestoredSource(mode, snapshot.spriteConfig.originalImage);
+    if (snapshot.spriteConfig.originalImage !== spriteConfig.originalImage) setSpriteAnalysis(null);
+    setFrames(snapshot.frames);
+    setSelectedFrameIds(prev => prev.filter(id => snapshot.frames.some(f => f.id === id)));
+    setSpriteConfig(snapshot.spriteConfig);
+    setFps(settings.fps);
+    setBackgroundColor(settings.backgroundColor);
+    setExportOptions(settings.exportOptions);
+    setSheetOptions(settings.sheetOptions);
+    setLayoutConfig(settings.layoutConfig);
+    setPlayback(settings.playback);
+    setFilters(settings.filters);
+    setOverlays(settings.overlays);
+  };
+
+  const handleHistoryJump = (index: number) => {
+    const entry = history.entries[index];
+    if (!entry || index === history.index) return;
+    setHistory(prev => ({ ...prev, index }));
+    applySnapshot(entry.snapshot);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = e.target;
+      if (target instanceof HTMLTextAreaElement) return;
+      if (target instanceof HTMLInputElement && (target.type === 'text' || target.type === 'number')) return;
+      e.preventDefault();
+      handleHistoryJump(history.index + (key === 'y' || e.shiftKey ? 1 : -1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, mode, spriteConfig]);
+
+  const handleRestoreSession = async () => {
+    if (!pendingSession) return;
+    try {
+      applyProjectState(await restoreSession(pendingSession));
+    } catch (error) {
+      console.error("Session restore failed", error);
+      alert("恢复上次工作失败");
+    } finally {
+      setPendingSession(null);
+    }
+  };
+
+  const handleEstimateSize = async () => {
+    // Aborting stops the worker of an estimate that is still running
+    sizeEstimateRef.current?.abort();
+    const controller = new AbortController();
+    sizeEstimateRef.current = controller;
+    setGifSizeEstimate(null);
+    setIsEstimatingSize(true);
+    try {
+      const size = await estimateGifSize(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, exportOptions, filters, overlays, controller.signal);
+      if (!controller.signal.aborted) setGifSizeEstimate(size);
+    } catch (error) {
+      if (!controller.signal.aborted) console.error("Size estimation failed", error);
+    } finally {
+      if (!controller.signal.aborted) setIsEstimatingSize(false);
+    }
+  };
+
+  const handleDismissSession = () => {
+    setPendingSession(null);
+    clearSession().catch(error => console.error("Session clear failed", error));
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      setIsSavingProject(true);
+      const project = await createProjectFile(getProjectState());
+      downloadBlob(new Blob([JSON.stringify(project)], { type: 'application/json' }), `animation${PROJECT_FILE_EXTENSION}`);
+    } catch (error) {
+      console.error("Project save failed", error);
+      alert("项目保存失败，请重试");
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
+
+  const handleLoadProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      applyProjectState(await restoreProject(parseProjectFile(await file.text())));
+      // A loaded project replaces whatever the autosave was offering
+      setPendingSession(null);
+    } catch (error) {
+      console.error("Project load failed", error);
+      alert("项目加载失败，请检查文件格式");
+    }
+  };
 
   // Helper for wheel input on sliders
   const handleWheelChange = (
@@ -89,58 +464,273 @@ function App() {
   // File Handlers
   const handleFilesDropped = async (files: File[]) => {
     if (mode === AppMode.MULTI_IMAGE) {
+      let imageFiles: File[];
+      try {
+        imageFiles = sortImportFiles(await expandArchives(files), importSortOrder);
+      } catch (error) {
+        console.error("Archive extraction failed", error);
+        alert("ZIP解压失败，请检查文件");
+        return;
+      }
+
       const newFrames: FrameData[] = [];
-      for (const file of files) {
-        const url = await readFileAsDataURL(file);
-        const frameData = await loadImageData(url, file);
-        newFrames.push(frameData);
+      const skipped: string[] = [];
+      for (const file of imageFiles) {
+        // Animated GIFs are expanded into one editable frame per GIF frame
+        const gifFrames = await loadGifFrames(file).catch((error) => {
+          console.warn("GIF decode failed, importing first frame only", error);
+          return null;
+        });
+        if (gifFrames) {
+          newFrames.push(...gifFrames);
+          continue;
+        }
+        // One broken file must not cost the rest of a folder or ZIP
+        try {
+          newFrames.push(await loadImageFile(file));
+        } catch (error) {
+          console.error("Image load failed", file.name, error);
+          skipped.push(file.name);
+        }
       }
       setFrames((prev) => [...prev, ...newFrames]);
+      if (skipped.length > 0) {
+        alert(`以下文件无法读取，已跳过：\n${skipped.join('\n')}`);
+      }
     } else {
-      // Sprite Sheet Mode - Only take first file
-      const file = files[0];
-      const url = await readFileAsDataURL(file);
-      const frameData = await loadImageData(url, file);
-      
-      setSpriteConfig({
-        rows: 1,
-        cols: 1,
-        totalFrames: 1,
-        originalImage: frameData
+      // Sprite Sheet Mode - first image, plus an optional JSON atlas sidecar
+      const file = files.find(f => f.type.startsWith('image/'));
+      const jsonFile = files.find(f => !f.type.startsWith('image/'));
+
+      let atlas: SpriteAtlas | null = null;
+      if (jsonFile) {
+        try {
+          atlas = parseSpriteAtlas(JSON.parse(await jsonFile.text()));
+        } catch (error) {
+          console.error("Atlas parse failed", error);
+          alert("JSON图集解析失败，请检查文件格式");
+        }
+      }
+
+      if (!file) {
+        // A JSON dropped on its own applies to the sheet already loaded
+        if (atlas && spriteConfig.originalImage) {
+          const loaded = atlas;
+          setSpriteConfig(prev => ({ ...prev, atlas: loaded, atlasTag: null }));
+        } else if (atlas) {
+          alert("请同时上传雪碧图图片");
+        }
+        return;
+      }
+
+      let frameData: FrameData;
+      try {
+        frameData = await loadImageFile(file);
+      } catch (error) {
+        console.error("Sprite sheet load failed", error);
+        alert("雪碧图读取失败，请检查图片文件");
+        return;
+      }
+
+      setSpriteConfig({ ...createSpriteConfig(frameData), atlas });
+      setSpriteAnalysis(null);
+      if (atlas) return;
+
+      // Suggest a grid from the sheet's gutters instead of starting at 1x1
+      try {
+        setIsAnalyzing(true);
+        const { data, width, height } = await getImagePixels(frameData.url);
+        const analysis = analyzeSpriteSheet(data, width, height);
+        setSpriteAnalysis(analysis);
+        if (analysis.grid) {
+          const grid = analysis.grid;
+          setSpriteConfig(prev => prev.originalImage === frameData ? applyGridSuggestion(prev, grid) : prev);
+        }
+      } catch (error) {
+        console.warn("Sprite sheet analysis failed", error);
+      } finally {
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
+  const applyGridSuggestion = (config: SpriteSheetConfig, grid: SpriteGridSuggestion): SpriteSheetConfig => {
+    const cellCount = grid.rows * grid.cols;
+    // Trailing empty cells just shorten the animation; gaps in between need a custom sequence
+    const trailingEmpty = grid.emptyCells.every((cell, i) => cell === grid.frameCount + i);
+    const sequence = trailingEmpty
+      ? null
+      : Array.from({ length: cellCount }, (_, i) => i).filter(i => !grid.emptyCells.includes(i));
+
+    return {
+      ...createSpriteConfig(config.originalImage),
+      rows: grid.rows,
+      cols: grid.cols,
+      totalFrames: Math.max(1, trailingEmpty ? grid.frameCount : cellCount),
+      sequence,
+    };
+  };
+
+  // Timeline edits keep the current frame selected wherever it moves
+  const handleFramesChange = (next: FrameData[]) => {
+    const currentId = frames[currentFrameIndex]?.id;
+    const index = next.findIndex(f => f.id === currentId);
+    setFrames(next);
+    setCurrentFrameIndex(index >= 0 ? index : Math.min(currentFrameIndex, Math.max(0, next.length - 1)));
+    setSelectedFrameIds(prev => prev.filter(id => next.some(f => f.id === id)));
+  };
+
+  const handleFrameSelectionChange = (ids: string[], index: number) => {
+    setIsPlaying(false);
+    setSelectedFrameIds(ids);
+    setCurrentFrameIndex(index);
+  };
+
+  // Cells available after the start offset, bounds the total frame slider
+  const maxSpriteFrames = getSpriteCellCount(spriteConfig) - spriteConfig.startOffset;
+
+  const handleSelectFrame = (index: number) => {
+    setIsPlaying(false);
+    setCurrentFrameIndex(index);
+  };
+
+  const currentFrameDuration = mode === AppMode.MULTI_IMAGE
+    ? frames[currentFrameIndex]?.duration
+    : spriteConfig.frameDurations?.[currentFrameIndex];
+
+  const handleFrameDurationChange = (duration: number | undefined) => {
+    const index = currentFrameIndex;
+    if (mode === AppMode.MULTI_IMAGE) {
+      setFrames(prev => prev.map((frame, i) => (i === index ? { ...frame, duration } : frame)));
+    } else {
+      setSpriteConfig(prev => {
+        const frameDurations = { ...prev.frameDurations };
+        if (duration === undefined) {
+          delete frameDurations[index];
+        } else {
+          frameDurations[index] = duration;
+        }
+        return { ...prev, frameDurations };
+      });
+    }
+  };
+
+  const currentFrameOffset = getFrameOffset(mode, frames, spriteConfig, currentFrameIndex);
+
+  // Frames a filter scoped to the selection covers: the timeline selection, else the current frame
+  const filterSelectionKeys = mode === AppMode.MULTI_IMAGE && selectedFrameIds.length > 0
+    ? selectedFrameIds
+    : totalPlayableFrames > 0 ? [getFilterFrameKey(mode, frames, currentFrameIndex)] : [];
+
+  const handleFrameOffsetChange = (offset: FrameOffset | undefined) => {
+    const index = currentFrameIndex;
+    if (mode === AppMode.MULTI_IMAGE) {
+      setFrames(prev => prev.map((frame, i) => (i === index ? { ...frame, offset } : frame)));
+    } else {
+      setSpriteConfig(prev => {
+        const frameOffsets = { ...prev.frameOffsets };
+        if (offset === undefined) {
+          delete frameOffsets[index];
+        } else {
+          frameOffsets[index] = offset;
+        }
+        return { ...prev, frameOffsets };
       });
     }
   };
 
-  const handleDeleteFrame = (index: number) => {
-    setFrames(prev => prev.filter((_, i) => i !== index));
+  const handleCropChange = (crop: Rect) => {
+    setExportOptions(prev => ({ ...prev, crop }));
+  };
+
+  const updatePlayback = (patch: Partial<PlaybackConfig>) => {
+    setPlayback(prev => ({ ...prev, ...patch }));
+  };
+
+  // Markers never cross: setting one past the other clears the other
+  const handleSetInPoint = () => {
+    updatePlayback({
+      inPoint: currentFrameIndex,
+      outPoint: playback.outPoint !== null && playback.outPoint < currentFrameIndex ? null : playback.outPoint,
+    });
+  };
+
+  const handleSetOutPoint = () => {
+    updatePlayback({
+      outPoint: currentFrameIndex,
+      inPoint: playback.inPoint > currentFrameIndex ? 0 : playback.inPoint,
+    });
   };
 
-  const handleExportGif = async () => {
+  const exportFormatLabel = EXPORT_FORMATS.find(f => f.value === exportOptions.format)?.label ?? 'GIF';
+
+  const handleExport = async () => {
     if (totalPlayableFrames === 0) return;
-    
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
     try {
       setIsExporting(true);
+      setExportStage('loading');
       setExportProgress(0);
       setIsPlaying(false);
 
-      const blob = await generateGif(
+      const blob = await exportAnimation(
         mode,
         frames,
         spriteConfig,
+        layoutConfig,
+        playback,
         fps,
         backgroundColor,
-        (progress) => setExportProgress(Math.round(progress * 100))
+        exportOptions,
+        filters,
+        overlays,
+        (stage, progress) => {
+          setExportStage(stage);
+          setExportProgress(Math.round(progress * 100));
+        },
+        controller.signal
       );
 
-      downloadBlob(blob, 'animation.gif');
+      downloadBlob(blob, `animation.${EXPORT_FILE_EXTENSIONS[exportOptions.format]}`);
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error("Export failed", error);
-      alert("GIF导出失败，请重试");
+      alert(error instanceof ExportError
+        ? `${exportFormatLabel}导出失败: ${error.message}`
+        : `${exportFormatLabel}导出失败，请重试`);
     } finally {
+      exportAbortRef.current = null;
       setIsExporting(false);
     }
   };
 
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  const handleExportSpriteSheet = async () => {
+    if (frames.length === 0) return;
+
+    try {
+      setIsExportingSheet(true);
+      const durations = frames.map((_, i) => getFrameDuration(mode, frames, spriteConfig, i, fps));
+      const result = await generateSpriteSheet(frames, layoutConfig, sheetOptions, durations, filters, 'spritesheet.png');
+      if (!result) return;
+
+      downloadBlob(result.image, 'spritesheet.png');
+      if (result.atlas) {
+        downloadBlob(new Blob([result.atlas], { type: 'application/json' }), 'spritesheet.json');
+      }
+    } catch (error) {
+      console.error("Sprite sheet export failed", error);
+      alert("雪碧图导出失败，请重试");
+    } finally {
+      setIsExportingSheet(false);
+    }
+  };
+
   return (
     <div className="flex flex-col h-screen bg-gray-950 text-white font-sans">
       {/* Header */}
@@ -165,16 +755,86 @@ function App() {
           </button>
         </div>
 
-        <button
-          onClick={handleExportGif}
-          disabled={isExporting || totalPlayableFrames === 0}
-          className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors font-medium text-sm"
-        >
-          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
-          {isExporting ? `导出中 ${exportProgress}%` : '导出GIF'}
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => handleHistoryJump(history.index - 1)}
+            disabled={history.index === 0}
+            className="p-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-gray-300 transition-colors"
+            title={history.index > 0 ? `撤销: ${history.entries[history.index].label} (Ctrl+Z)` : '撤销 (Ctrl+Z)'}
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => handleHistoryJump(history.index + 1)}
+            disabled={history.index >= history.entries.length - 1}
+            className="p-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-gray-300 transition-colors"
+            title={history.index < history.entries.length - 1 ? `重做: ${history.entries[history.index + 1].label} (Ctrl+Shift+Z)` : '重做 (Ctrl+Shift+Z)'}
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <div className="w-px h-6 bg-gray-700 mx-1" />
+          <button
+            onClick={() => projectInputRef.current?.click()}
+            className="p-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-gray-300 transition-colors"
+            title="打开项目"
+          >
+            <FolderOpen className="w-4 h-4" />
+          </button>
+          <input ref={projectInputRef} type="file" accept={`${PROJECT_FILE_EXTENSION},application/json`} onChange={handleLoadProject} className="hidden" />
+          <button
+            onClick={handleSaveProject}
+            disabled={isSavingProject || (frames.length === 0 && !spriteConfig.originalImage)}
+            className="p-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-gray-300 transition-colors"
+            title="保存项目 (图片、帧顺序、切分与导出设置)"
+          >
+            {isSavingProject ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          </button>
+          <select
+            value={exportOptions.format}
+            onChange={(e) => setExportOptions(prev => ({ ...prev, format: e.target.value as ExportFormat }))}
+            disabled={isExporting}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-2 text-sm outline-none focus:border-blue-500"
+            title={EXPORT_FORMATS.find(f => f.value === exportOptions.format)?.features}
+          >
+            {EXPORT_FORMATS.map(f => (
+              <option key={f.value} value={f.value}>{f.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || totalPlayableFrames === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors font-medium text-sm"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {isExporting ? `${EXPORT_STAGE_LABELS[exportStage]} ${exportProgress}%` : `导出${exportFormatLabel}`}
+          </button>
+          {isExporting && (
+            <button
+              onClick={handleCancelExport}
+              className="p-2 bg-gray-800 hover:bg-red-600 rounded-lg text-gray-300 hover:text-white transition-colors"
+              title="取消导出"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </header>
 
+      {pendingSession && (
+        <div className="flex items-center gap-3 px-6 py-2 bg-blue-900/40 border-b border-blue-800 text-sm shrink-0">
+          <History className="w-4 h-4 text-blue-400" />
+          <span className="text-gray-200">
+            发现上次未完成的工作 ({new Date(pendingSession.savedAt).toLocaleString()})，是否恢复？
+          </span>
+          <button onClick={handleRestoreSession} className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-xs text-white transition-colors">
+            恢复
+          </button>
+          <button onClick={handleDismissSession} className="px-3 py-1 text-xs text-gray-400 hover:text-white transition-colors">
+            忽略
+          </button>
+        </div>
+      )}
+
       <div className="flex-1 flex overflow-hidden">
         {/* Sidebar */}
         <aside className="w-80 bg-gray-900 border-r border-gray-800 p-6 flex flex-col gap-6 overflow-y-auto z-10 shrink-0">
@@ -182,38 +842,74 @@ function App() {
           {/* Mode Specific Inputs */}
           {mode === AppMode.MULTI_IMAGE ? (
             <div className="space-y-4">
-              <Dropzone onFilesDropped={handleFilesDropped} multiple={true} label="添加序列帧图片" />
+              <Dropzone onFilesDropped={handleFilesDropped} multiple={true} acceptArchives={true} label="添加序列帧图片 (支持文件夹和 ZIP)" />
+              <div className="flex items-center gap-2">
+                <label className="text-xs text-gray-400 shrink-0">导入排序</label>
+                <select
+                  value={importSortOrder}
+                  onChange={(e) => setImportSortOrder(e.target.value as ImportSortOrder)}
+                  className="flex-1 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none"
+                >
+                  {IMPORT_SORT_ORDERS.map(o => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </div>
               
               {frames.length > 0 && (
                 <div className="space-y-2">
-                  <div className="flex justify-between items-center text-sm text-gray-400">
-                    <span>已加载帧 ({frames.length})</span>
-                    <button onClick={() => setFrames([])} className="text-red-400 hover:text-red-300 text-xs flex items-center gap-1">
-                      <Trash2 className="w-3 h-3" /> 清空
-                    </button>
-                  </div>
-                  <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto p-2 bg-gray-950 rounded border border-gray-800 custom-scrollbar">
-                    {frames.map((frame, idx) => (
-                      <div key={frame.id} className="relative group aspect-square bg-gray-900 rounded overflow-hidden border border-gray-800">
-                        <img src={frame.url} className="w-full h-full object-cover" alt={`frame-${idx}`} />
-                        <button 
-                          onClick={() => handleDeleteFrame(idx)}
-                          className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 flex items-center justify-center text-red-400 transition-opacity"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                        <div className="absolute bottom-0 left-0 bg-black/60 text-[10px] px-1 text-white">{idx + 1}</div>
-                      </div>
-                    ))}
-                  </div>
+                  <SpriteSheetExport
+                    options={sheetOptions}
+                    onChange={setSheetOptions}
+                    onExport={handleExportSpriteSheet}
+                    isExporting={isExportingSheet}
+                    frameCount={frames.length}
+                  />
                 </div>
               )}
             </div>
           ) : (
             <div className="space-y-4">
-              <Dropzone onFilesDropped={handleFilesDropped} multiple={false} label="上传雪碧图/拼合图" />
+              <Dropzone onFilesDropped={handleFilesDropped} multiple={true} acceptJson={true} label="上传雪碧图/拼合图 (可附带 JSON 图集)" />
               
-              {spriteConfig.originalImage && (
+              {spriteConfig.originalImage && spriteConfig.atlas && (
+                <AtlasPanel
+                  atlas={spriteConfig.atlas}
+                  activeTag={spriteConfig.atlasTag}
+                  onTagChange={(atlasTag) => setSpriteConfig(prev => ({ ...prev, atlasTag }))}
+                  onRemove={() => setSpriteConfig(prev => ({ ...prev, atlas: null, atlasTag: null }))}
+                />
+              )}
+
+              {!spriteConfig.atlas && (
+                <SpriteAnalysisPanel
+                  analysis={spriteAnalysis}
+                  isAnalyzing={isAnalyzing}
+                  usingRegions={spriteConfig.regions !== null}
+                  onApplyGrid={() => {
+                    const grid = spriteAnalysis?.grid;
+                    if (grid) setSpriteConfig(prev => applyGridSuggestion(prev, grid));
+                  }}
+                  onApplyBounds={() => {
+                    const bounds = spriteAnalysis?.bounds;
+                    if (bounds) setSpriteConfig(prev => ({ ...prev, regions: bounds }));
+                  }}
+                />
+              )}
+
+              {spriteConfig.originalImage && !spriteConfig.atlas && spriteConfig.regions !== null && (
+                 <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 flex justify-between items-center text-xs text-gray-400">
+                    <span>按精灵边界切分: {spriteConfig.regions.length} 帧</span>
+                    <button
+                      onClick={() => setSpriteConfig(prev => ({ ...prev, regions: null }))}
+                      className="hover:text-white"
+                    >
+                      改用网格
+                    </button>
+                 </div>
+              )}
+
+              {spriteConfig.originalImage && !spriteConfig.atlas && spriteConfig.regions === null && (
                  <div className="p-3 bg-gray-800 rounded-lg space-y-4 border border-gray-700">
                     <div className="grid grid-cols-2 gap-3">
                        <div>
@@ -238,26 +934,100 @@ function App() {
                        </div>
                     </div>
                     
-                    <div>
-                        <div className="flex justify-between items-center mb-1">
-                            <label className="text-xs text-gray-400">总帧数</label>
-                            <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{spriteConfig.totalFrames}</span>
-                        </div>
-                        <input 
-                            type="range"
-                            min="1"
-                            max={spriteConfig.rows * spriteConfig.cols}
-                            value={spriteConfig.totalFrames}
-                            onChange={(e) => setSpriteConfig(prev => ({...prev, totalFrames: parseInt(e.target.value)}))}
-                            onWheel={(e) => handleWheelChange(e, spriteConfig.totalFrames, (val) => setSpriteConfig(prev => ({...prev, totalFrames: val})), 1, spriteConfig.rows * spriteConfig.cols)}
-                            className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                        />
+                    <SpriteSlicingSettings
+                        config={spriteConfig}
+                        onChange={(patch) => setSpriteConfig(prev => ({...prev, ...patch}))}
+                    />
+
+                    {spriteConfig.sequence === null ? (
+                      <div>
+                          <div className="flex justify-between items-center mb-1">
+                              <label className="text-xs text-gray-400">总帧数</label>
+                              <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{spriteConfig.totalFrames}</span>
+                          </div>
+                          <input 
+                              type="range"
+                              min="1"
+                              max={Math.max(1, maxSpriteFrames)}
+                              value={spriteConfig.totalFrames}
+                              onChange={(e) => setSpriteConfig(prev => ({...prev, totalFrames: parseInt(e.target.value)}))}
+                              onWheel={(e) => handleWheelChange(e, spriteConfig.totalFrames, (val) => setSpriteConfig(prev => ({...prev, totalFrames: val})), 1, Math.max(1, maxSpriteFrames))}
+                              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                          />
+                      </div>
+                    ) : (
+                      <div className="text-xs text-gray-400">自定义序列: {spriteConfig.sequence.length} 帧</div>
+                    )}
+
+                    <SpriteGridEditor
+                        config={spriteConfig}
+                        currentFrameIndex={currentFrameIndex}
+                        onSequenceChange={(sequence) => setSpriteConfig(prev => ({...prev, sequence}))}
+                    />
+
+                    <div className="grid grid-cols-6 gap-1 max-h-32 overflow-y-auto">
+                        {Array.from({ length: totalPlayableFrames }, (_, idx) => {
+                          const duration = spriteConfig.frameDurations?.[idx];
+                          return (
+                            <button
+                              key={idx}
+                              onClick={() => handleSelectFrame(idx)}
+                              title={duration !== undefined ? `${duration}ms` : undefined}
+                              className={`relative text-[10px] py-1 rounded border ${idx === currentFrameIndex ? 'border-blue-500 text-white' : 'border-gray-700 text-gray-400 hover:border-gray-500'} ${duration !== undefined ? 'bg-blue-600/30' : 'bg-gray-950'}`}
+                            >
+                              {idx + 1}
+                            </button>
+                          );
+                        })}
                     </div>
                  </div> 
               )}
             </div>
           )}
 
+          {totalPlayableFrames > 0 && (
+            <FrameDurationEditor
+              frameIndex={currentFrameIndex}
+              duration={currentFrameDuration}
+              fps={fps}
+              onChange={handleFrameDurationChange}
+            />
+          )}
+
+          {totalPlayableFrames > 0 && (
+            <FrameLayoutSettings
+              config={layoutConfig}
+              onChange={(patch) => setLayoutConfig(prev => ({ ...prev, ...patch }))}
+              canvasSize={exportFrameSize}
+              frameIndex={currentFrameIndex}
+              offset={currentFrameOffset}
+              onOffsetChange={handleFrameOffsetChange}
+            />
+          )}
+
+          {totalPlayableFrames > 1 && (
+            <OnionSkinSettings
+              config={onionSkin}
+              onChange={(patch) => setOnionSkin(prev => ({ ...prev, ...patch }))}
+            />
+          )}
+
+          {totalPlayableFrames > 0 && (
+            <FilterStackPanel
+              filters={filters}
+              onChange={setFilters}
+              selectedKeys={filterSelectionKeys}
+            />
+          )}
+
+          {totalPlayableFrames > 0 && (
+            <OverlayPanel
+              overlays={overlays}
+              onChange={setOverlays}
+              frameCount={totalPlayableFrames}
+            />
+          )}
+
           <div className="h-px bg-gray-800 my-2"></div>
 
           {/* Global Settings */}
@@ -310,7 +1080,7 @@ function App() {
                 背景颜色
               </label>
               <div className="flex gap-2">
-                {['#2d3748', '#ffffff', '#000000', '#00ff00'].map(c => (
+                {[DEFAULT_BACKGROUND_COLOR, '#ffffff', '#000000', '#00ff00'].map(c => (
                   <button
                     key={c}
                     onClick={() => setBackgroundColor(c)}
@@ -329,6 +1099,20 @@ function App() {
                 </div>
               </div>
             </div>
+
+            {/* Export Settings */}
+            <ExportSettings
+              options={exportOptions}
+              onChange={setExportOptions}
+              frameSize={exportFrameSize}
+              estimatedSize={gifSizeEstimate}
+              isEstimating={isEstimatingSize}
+              onEstimate={handleEstimateSize}
+            />
+
+            {history.entries.length > 1 && (
+              <HistoryPanel entries={history.entries} index={history.index} onJump={handleHistoryJump} />
+            )}
           </div>
         </aside>
 
@@ -343,6 +1127,13 @@ function App() {
                 currentFrameIndex={currentFrameIndex}
                 scale={scale}
                 backgroundColor={backgroundColor}
+                exportOptions={exportOptions}
+                layout={frameLayout}
+                onionSkin={onionSkin}
+                filters={filters}
+                overlays={overlays}
+                onCropChange={handleCropChange}
+                onOffsetChange={handleFrameOffsetChange}
               />
             ) : (
               <div className="text-center text-gray-500">
@@ -352,6 +1143,16 @@ function App() {
             )}
           </div>
 
+          {mode === AppMode.MULTI_IMAGE && frames.length > 0 && (
+            <FrameTimeline
+              frames={frames}
+              currentFrameIndex={currentFrameIndex}
+              selectedIds={selectedFrameIds}
+              onFramesChange={handleFramesChange}
+              onSelectionChange={handleFrameSelectionChange}
+            />
+          )}
+
           {/* Bottom Timeline Controls */}
            {totalPlayableFrames > 0 && (
             <div className="h-16 bg-gray-900 border-t border-gray-800 px-6 flex items-center gap-4 shrink-0 z-20">
@@ -365,20 +1166,75 @@ function App() {
               <div className="flex-1 flex flex-col justify-center gap-1">
                  <div className="flex justify-between text-xs text-gray-400 px-1">
                   <span>当前帧: {currentFrameIndex + 1}</span>
+                  {(playbackRange.start > 0 || playbackRange.end < totalPlayableFrames - 1) && (
+                    <span className="text-amber-400">区间: {playbackRange.start + 1} - {playbackRange.end + 1}</span>
+                  )}
                   <span>总帧数: {totalPlayableFrames}</span>
                  </div>
-                 <input
-                  type="range"
+                 <div className="relative">
+                   <input
+                    type="range"
+                    min="0"
+                    max={totalPlayableFrames - 1}
+                    value={currentFrameIndex}
+                    onChange={(e) => {
+                      setIsPlaying(false);
+                      setCurrentFrameIndex(parseInt(e.target.value));
+                    }}
+                    onWheel={(e) => handleWheelChange(e, currentFrameIndex, setCurrentFrameIndex, 0, totalPlayableFrames - 1)}
+                    className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
+                  />
+                   {/* In/out range under the slider */}
+                   {totalPlayableFrames > 1 && (
+                     <div
+                      className="absolute -bottom-1 h-0.5 bg-amber-400/80 rounded pointer-events-none"
+                      style={{
+                        left: `${(playbackRange.start / (totalPlayableFrames - 1)) * 100}%`,
+                        width: `${((playbackRange.end - playbackRange.start) / (totalPlayableFrames - 1)) * 100}%`,
+                      }}
+                    />
+                   )}
+                 </div>
+              </div>
+
+              <div className="flex items-center gap-1">
+                <button onClick={handleSetInPoint} className="px-2 py-1 rounded text-xs text-gray-300 bg-gray-800 hover:bg-gray-700 transition-colors" title="把当前帧设为循环起点">
+                  设为入点
+                </button>
+                <button onClick={handleSetOutPoint} className="px-2 py-1 rounded text-xs text-gray-300 bg-gray-800 hover:bg-gray-700 transition-colors" title="把当前帧设为循环终点">
+                  设为出点
+                </button>
+                {(playback.inPoint > 0 || playback.outPoint !== null) && (
+                  <button onClick={() => updatePlayback({ inPoint: 0, outPoint: null })} className="px-2 py-1 rounded text-xs text-gray-400 hover:text-white transition-colors" title="播放全部帧">
+                    清除
+                  </button>
+                )}
+              </div>
+
+              <div className="flex bg-gray-800 rounded-lg p-1">
+                {PLAYBACK_DIRECTIONS.map(({ value, label, Icon }) => (
+                  <button
+                    key={value}
+                    onClick={() => updatePlayback({ direction: value })}
+                    className={`p-1.5 rounded-md transition-colors ${playback.direction === value ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+                    title={label}
+                  >
+                    <Icon className="w-4 h-4" />
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-1.5 text-xs text-gray-400" title="总播放次数，0 为无限循环；导出时写入文件">
+                <Repeat className="w-4 h-4" />
+                <input
+                  type="number"
                   min="0"
-                  max={totalPlayableFrames - 1}
-                  value={currentFrameIndex}
-                  onChange={(e) => {
-                    setIsPlaying(false);
-                    setCurrentFrameIndex(parseInt(e.target.value));
-                  }}
-                  onWheel={(e) => handleWheelChange(e, currentFrameIndex, setCurrentFrameIndex, 0, totalPlayableFrames - 1)}
-                  className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
+                  max="65535"
+                  value={playback.loopCount}
+                  onChange={(e) => updatePlayback({ loopCount: Math.min(65535, Math.max(0, parseInt(e.target.value) || 0)) })}
+                  className="w-14 bg-gray-950 border border-gray-700 rounded px-1.5 py-1 text-xs focus:border-blue-500 outline-none"
                 />
+                <span>{playback.loopCount === 0 ? '无限' : '次'}</span>
               </div>
             </div>
            )}
@@ -0,0 +1,333 @@
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  AppMode,
+  CanvasSizePolicy,
+  ExportOptions,
+  FrameAnchor,
+  FrameData,
+  FrameFilter,
+  FrameLayoutConfig,
+  GifDitherMode,
+  GifPaletteMode,
+  ImportSortOrder,
+  Overlay,
+  PlaybackConfig,
+  PlaybackDirection,
+  ResamplingMode,
+  SpriteSheetConfig,
+} from '../types';
+import { parseSpriteAtlas } from '../utils/atlasParser';
+import { createExportOptions, DEFAULT_BACKGROUND_COLOR, DEFAULT_FPS } from '../utils/exportOptions';
+import { expandArchives, isArchiveFile, sortImportFiles } from '../utils/fileImport';
+import { createFrameLayoutConfig, FRAME_ANCHORS } from '../utils/frameLayout';
+import { createFrameId } from '../utils/frameOperations';
+import { createOverlayLayer, OverlayLayer, renderAnimation, RgbaImage } from '../utils/frameRenderer';
+import { encodeGif } from '../utils/gifEncoder';
+import { getGifEncoderOptions } from '../utils/gifExport';
+import { parsePalette } from '../utils/paletteParser';
+import { createPlaybackConfig } from '../utils/playback';
+import { decodePng, isPng } from '../utils/pngDecoder';
+import { parseProjectFile, restoreProject } from '../utils/projectFile';
+import { createSpriteConfig } from '../utils/spriteSlicing';
+
+// Headless GIF builder for asset pipelines. Renders and encodes through the
+// same core as the web export, so equal settings give byte-identical GIFs.
+
+const USAGE = `Usage: gif-cli <folder | sheet.png | frames.zip> [options]
+       gif-cli --project <file.gifproj> [options]
+
+Input
+  -o, --output <file>        Output GIF (default: animation.gif)
+      --project <file>       Saved project: images and all settings (text overlays need the app)
+      --sort <order>         Folder/ZIP order: name | modified | suffix (default: name)
+      --rows <n>             Sprite sheet rows
+      --cols <n>             Sprite sheet columns
+      --frames <n>           Sprite sheet frame count (default: rows * cols)
+      --atlas <file>         TexturePacker / Aseprite JSON for the sheet
+      --tag <name>           Atlas animation tag
+
+Animation
+      --fps <n>              Frames per second (default: ${DEFAULT_FPS})
+      --background <hex>     Background color (default: ${DEFAULT_BACKGROUND_COLOR})
+      --direction <dir>      forward | reverse | pingpong
+      --in <n>, --out <n>    First / last frame of the played range (1-based)
+      --loops <n>            Total plays, 0 loops forever
+
+Canvas and output size
+      --size-policy <p>      first | max | custom | trim
+      --canvas <WxH>         Canvas size for the custom policy
+      --anchor <anchor>      ${FRAME_ANCHORS.join(' | ')}
+      --crop <x,y,w,h>       Crop after layout
+      --scale <n>            Output scale factor
+      --width <n>, --height <n>  Output size (0 keeps the aspect ratio)
+      --resampling <mode>    nearest | smooth
+
+GIF
+      --transparent          Keep transparency
+      --alpha-threshold <n>  0-255, alpha below is transparent (default: 128)
+      --matte <hex>          Blend semi-transparent edges against this color
+      --colors <n>           2-256 colors per palette
+      --palette-mode <mode>  local | global
+      --palette <file>       Fixed palette (.gpl, .pal, .hex)
+      --dither <mode>        none | floyd-steinberg | bayer
+      --no-optimize          Write full frames instead of changed regions
+  -h, --help                 Show this help
+`;
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    output: { type: 'string', short: 'o' },
+    project: { type: 'string' },
+    sort: { type: 'string' },
+    rows: { type: 'string' },
+    cols: { type: 'string' },
+    frames: { type: 'string' },
+    atlas: { type: 'string' },
+    tag: { type: 'string' },
+    fps: { type: 'string' },
+    background: { type: 'string' },
+    direction: { type: 'string' },
+    in: { type: 'string' },
+    out: { type: 'string' },
+    loops: { type: 'string' },
+    'size-policy': { type: 'string' },
+    canvas: { type: 'string' },
+    anchor: { type: 'string' },
+    crop: { type: 'string' },
+    scale: { type: 'string' },
+    width: { type: 'string' },
+    height: { type: 'string' },
+    resampling: { type: 'string' },
+    transparent: { type: 'boolean' },
+    'alpha-threshold': { type: 'string' },
+    matte: { type: 'string' },
+    colors: { type: 'string' },
+    'palette-mode': { type: 'string' },
+    palette: { type: 'string' },
+    dither: { type: 'string' },
+    'no-optimize': { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+const toInt = (name: string, value: string, min: number, max = Number.MAX_SAFE_INTEGER): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return number;
+};
+
+const toNumber = (name: string, value: string): number => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) throw new Error(`Invalid --${name}: ${value}`);
+  return number;
+};
+
+const oneOf = <T extends string>(name: string, value: string, allowed: readonly T[]): T => {
+  if (!allowed.includes(value as T)) throw new Error(`Invalid --${name}: ${value} (expected ${allowed.join(' | ')})`);
+  return value as T;
+};
+
+const toHex = (name: string, value: string): string => {
+  if (!/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) throw new Error(`Invalid --${name}: ${value}`);
+  return value.startsWith('#') ? value : `#${value}`;
+};
+
+const readInputFile = async (filePath: string): Promise<File> => {
+  const [data, info] = await Promise.all([readFile(filePath), stat(filePath)]);
+  const name = path.basename(filePath);
+  const type = name.toLowerCase().endsWith('.png') ? 'image/png' : '';
+  return new File([data], name, { type, lastModified: info.mtimeMs });
+};
+
+const decodeFile = async (file: File): Promise<RgbaImage> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  if (!isPng(data)) throw new Error(`${file.name}: only PNG images are supported`);
+  return decodePng(data);
+};
+
+// Image watermarks of a project are decoded like the frames. Text needs a
+// browser to be drawn, so text overlays are left out with a warning.
+const loadOverlayLayers = async (overlays: Overlay[]): Promise<OverlayLayer[]> => {
+  const layers: OverlayLayer[] = [];
+  for (const overlay of overlays) {
+    if (!overlay.enabled) continue;
+    if (overlay.type === 'text') {
+      console.warn(`Skipping text overlay "${overlay.text}": text overlays are only rendered in the browser`);
+      continue;
+    }
+    const data = new Uint8Array(Buffer.from(overlay.src.slice(overlay.src.indexOf(',') + 1), 'base64'));
+    if (!isPng(data)) {
+      console.warn(`Skipping watermark ${overlay.name}: only PNG images are supported`);
+      continue;
+    }
+    layers.push(createOverlayLayer(overlay, await decodePng(data)));
+  }
+  return layers;
+};
+
+const toFrameData = (file: File, image: RgbaImage): FrameData => ({
+  id: createFrameId(),
+  url: '',
+  file,
+  width: image.width,
+  height: image.height,
+});
+
+interface LoadedInput {
+  mode: AppMode;
+  frames: FrameData[];
+  spriteConfig: SpriteSheetConfig;
+  images: RgbaImage[];
+}
+
+// Frames of a folder or ZIP archive, in the same order the web import uses
+const loadSequence = async (files: File[], order: ImportSortOrder): Promise<LoadedInput> => {
+  const sorted = sortImportFiles(await expandArchives(files), order).filter(file => file.type === 'image/png');
+  if (sorted.length === 0) throw new Error("No PNG frames found");
+  const images = await Promise.all(sorted.map(decodeFile));
+  return {
+    mode: AppMode.MULTI_IMAGE,
+    frames: sorted.map((file, i) => toFrameData(file, images[i])),
+    spriteConfig: createSpriteConfig(null),
+    images,
+  };
+};
+
+const loadSheet = async (file: File): Promise<LoadedInput> => {
+  const image = await decodeFile(file);
+  const sheet = toFrameData(file, image);
+  const rows = args.rows ? toInt('rows', args.rows, 1) : 1;
+  const cols = args.cols ? toInt('cols', args.cols, 1) : 1;
+  const spriteConfig: SpriteSheetConfig = {
+    ...createSpriteConfig(sheet),
+    rows,
+    cols,
+    totalFrames: args.frames ? toInt('frames', args.frames, 1, rows * cols) : rows * cols,
+  };
+  if (args.atlas) {
+    spriteConfig.atlas = parseSpriteAtlas(JSON.parse(await readFile(args.atlas, 'utf8')));
+    spriteConfig.atlasTag = args.tag ?? null;
+  }
+  return { mode: AppMode.SPRITE_SHEET, frames: [], spriteConfig, images: [image] };
+};
+
+const main = async () => {
+  if (args.help || (positionals.length === 0 && !args.project)) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  let input: LoadedInput;
+  let fps = DEFAULT_FPS;
+  let backgroundColor = DEFAULT_BACKGROUND_COLOR;
+  let options: ExportOptions = createExportOptions();
+  let layoutConfig: FrameLayoutConfig = createFrameLayoutConfig();
+  let playback: PlaybackConfig = createPlaybackConfig();
+  let filters: FrameFilter[] = [];
+  let overlays: OverlayLayer[] = [];
+
+  if (args.project) {
+    // Settings missing from older projects keep the app defaults, as when loading it in the browser
+    const project = await restoreProject(parseProjectFile(await readFile(args.project, 'utf8')));
+    const { settings } = project;
+    const sources = project.mode === AppMode.MULTI_IMAGE
+      ? project.frames
+      : project.spriteConfig.originalImage ? [project.spriteConfig.originalImage] : [];
+    input = { ...project, images: await Promise.all(sources.map(frame => decodeFile(frame.file))) };
+    if (settings.fps > 0) fps = settings.fps;
+    if (settings.backgroundColor) backgroundColor = settings.backgroundColor;
+    options = { ...options, ...settings.exportOptions };
+    layoutConfig = { ...layoutConfig, ...settings.layoutConfig };
+    playback = { ...playback, ...settings.playback };
+    filters = settings.filters ?? [];
+    overlays = await loadOverlayLayers(settings.overlays ?? []);
+  } else {
+    const inputPath = positionals[0];
+    const order = args.sort ? oneOf<ImportSortOrder>('sort', args.sort, ['name', 'modified', 'suffix']) : 'name';
+    if ((await stat(inputPath)).isDirectory()) {
+      // Regular files only, following links; a subfolder named like an image is skipped
+      const paths = (await readdir(inputPath))
+        .filter(name => !name.startsWith('.'))
+        .map(name => path.join(inputPath, name));
+      const isFile = await Promise.all(paths.map(filePath => stat(filePath).then(info => info.isFile(), () => false)));
+      const files = await Promise.all(paths.filter((_, i) => isFile[i]).map(readInputFile));
+      input = await loadSequence(files, order);
+    } else {
+      const file = await readInputFile(inputPath);
+      input = isArchiveFile(file) ? await loadSequence([file], order) : await loadSheet(file);
+    }
+  }
+
+  // Command-line flags win over project settings
+  if (args.fps) fps = toNumber('fps', args.fps);
+  if (args.background) backgroundColor = toHex('background', args.background);
+
+  options.format = 'gif';
+  if (args.transparent) options.transparent = true;
+  if (args['alpha-threshold']) options.alphaThreshold = toInt('alpha-threshold', args['alpha-threshold'], 0, 255);
+  if (args.matte) options.matteColor = toHex('matte', args.matte);
+  if (args.colors) options.maxColors = toInt('colors', args.colors, 2, 256);
+  if (args['palette-mode']) options.paletteMode = oneOf<GifPaletteMode>('palette-mode', args['palette-mode'], ['local', 'global']);
+  if (args.dither) options.dither = oneOf<GifDitherMode>('dither', args.dither, ['none', 'floyd-steinberg', 'bayer']);
+  if (args['no-optimize']) options.optimize = false;
+  if (args.palette) {
+    const data = await readFile(args.palette);
+    options.customPalette = parsePalette(path.basename(args.palette), data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+  }
+  if (args.crop) {
+    const [x, y, w, h] = args.crop.split(',').map(part => toInt('crop', part.trim(), 0));
+    if (w === undefined || h === undefined) throw new Error(`Invalid --crop: ${args.crop}`);
+    options.crop = { x, y, w, h };
+  }
+  if (args.scale) {
+    options.resizeMode = 'scale';
+    options.outputScale = toNumber('scale', args.scale);
+  }
+  if (args.width || args.height) {
+    options.resizeMode = 'size';
+    options.outputWidth = args.width ? toInt('width', args.width, 0) : 0;
+    options.outputHeight = args.height ? toInt('height', args.height, 0) : 0;
+  }
+  if (args.resampling) options.resampling = oneOf<ResamplingMode>('resampling', args.resampling, ['nearest', 'smooth']);
+
+  if (args['size-policy']) {
+    layoutConfig.sizePolicy = oneOf<CanvasSizePolicy>('size-policy', args['size-policy'], ['first', 'max', 'custom', 'trim']);
+  }
+  if (args.canvas) {
+    const match = args.canvas.match(/^(\d+)x(\d+)$/i);
+    if (!match) throw new Error(`Invalid --canvas: ${args.canvas}`);
+    layoutConfig.customWidth = toInt('canvas', match[1], 1);
+    layoutConfig.customHeight = toInt('canvas', match[2], 1);
+    if (!args['size-policy']) layoutConfig.sizePolicy = 'custom';
+  }
+  if (args.anchor) layoutConfig.anchor = oneOf<FrameAnchor>('anchor', args.anchor, FRAME_ANCHORS);
+
+  if (args.direction) playback.direction = oneOf<PlaybackDirection>('direction', args.direction, ['forward', 'reverse', 'pingpong']);
+  if (args.in) playback.inPoint = toInt('in', args.in, 1) - 1;
+  if (args.out) playback.outPoint = toInt('out', args.out, 1) - 1;
+  if (args.loops) playback.loopCount = toInt('loops', args.loops, 0, 0xffff);
+
+  const { mode, frames, spriteConfig, images } = input;
+  const animation = renderAnimation(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, images);
+  const data = encodeGif(
+    animation.frames,
+    getGifEncoderOptions(animation.width, animation.height, playback, options),
+    options.paletteMode === 'global',
+    progress => process.stderr.write(`\rEncoding ${Math.round(progress * 100)}%`)
+  );
+  process.stderr.write('\n');
+
+  const output = args.output ?? 'animation.gif';
+  await writeFile(output, data);
+  console.log(`${output}: ${animation.width}x${animation.height}, ${animation.frames.length} frames, ${(data.length / 1024).toFixed(1)} KB`);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
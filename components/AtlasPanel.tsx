@@ -0,0 +1,58 @@
+import React from 'react';
+import { FileJson, X } from 'lucide-react';
+import { SpriteAtlas } from '../types';
+
+interface AtlasPanelProps {
+  atlas: SpriteAtlas;
+  activeTag: string | null;
+  onTagChange: (tag: string | null) => void;
+  onRemove: () => void;
+}
+
+export const AtlasPanel: React.FC<AtlasPanelProps> = ({ atlas, activeTag, onTagChange, onRemove }) => {
+  const trimmed = atlas.frames.filter(f => f.sourceSize.w !== f.frame.w || f.sourceSize.h !== f.frame.h).length;
+  const rotated = atlas.frames.filter(f => f.rotated).length;
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+      <div className="flex justify-between items-center">
+        <span className="flex items-center gap-1.5 text-xs text-gray-300">
+          <FileJson className="w-3.5 h-3.5 text-gray-400" />
+          JSON 图集: {atlas.frames.length} 帧
+        </span>
+        <button
+          onClick={onRemove}
+          className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+          title="移除图集，改用网格切分"
+        >
+          <X className="w-3 h-3" /> 移除
+        </button>
+      </div>
+
+      {(trimmed > 0 || rotated > 0) && (
+        <p className="text-[11px] text-gray-500">
+          {trimmed > 0 && `${trimmed} 帧已裁切 (按原尺寸还原) `}
+          {rotated > 0 && `${rotated} 帧已旋转`}
+        </p>
+      )}
+
+      {atlas.tags.length > 0 && (
+        <div>
+          <label className="text-xs text-gray-400 mb-1 block">动画 (Tags)</label>
+          <select
+            value={activeTag ?? ''}
+            onChange={(e) => onTagChange(e.target.value || null)}
+            className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-blue-500 outline-none transition-colors"
+          >
+            <option value="">全部帧</option>
+            {atlas.tags.map(tag => (
+              <option key={tag.name} value={tag.name}>
+                {tag.name} ({tag.from + 1}-{tag.to + 1}, {tag.direction})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,70 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FrameData, SpriteSheetConfig, AppMode } from '../types';
+import { FrameData, SpriteSheetConfig, AppMode, ExportOptions, Rect, FrameOffset, OnionSkinConfig, FrameFilter, Overlay } from '../types';
+import { applyAlphaThreshold, quantize } from '../utils/gifEncoder';
+import { applyCanvasFilters, drawLayoutFrame, loadOverlayLayers } from '../utils/imageUtils';
+import { getActiveFilters, getFilterFrameKey } from '../utils/frameFilters';
+import { hexToRgb } from '../utils/color';
+import { paletteToBytes } from '../utils/paletteParser';
+import { clampCrop, dragCrop, CropHandle } from '../utils/exportGeometry';
+import { FrameLayout, getFrameOffset } from '../utils/frameLayout';
+import { getOverlayPosition, isOverlayVisible } from '../utils/overlays';
+import { getCachedBitmap, loadBitmap, prefetchBitmaps } from '../utils/imageCache';
+
+// Shown behind the canvas when exporting with transparency
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundColor: '#c0c0c0',
+  backgroundImage: 'repeating-conic-gradient(#808080 0% 25%, transparent 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+// Corner handle offsets relative to the crop rectangle
+const CROP_CORNERS: { handle: CropHandle; style: React.CSSProperties }[] = [
+  { handle: 'nw', style: { left: -5, top: -5, cursor: 'nwse-resize' } },
+  { handle: 'ne', style: { right: -5, top: -5, cursor: 'nesw-resize' } },
+  { handle: 'sw', style: { left: -5, bottom: -5, cursor: 'nesw-resize' } },
+  { handle: 'se', style: { right: -5, bottom: -5, cursor: 'nwse-resize' } },
+];
+
+interface CropDrag {
+  handle: CropHandle;
+  startX: number;
+  startY: number;
+  start: Rect;
+}
+
+interface OffsetDrag {
+  startX: number;
+  startY: number;
+  start: FrameOffset;
+}
+
+const NUDGE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+interface OnionGhost {
+  index: number;
+  color: string;
+  alpha: number;
+}
+
+// Neighbouring frames to ghost, farthest first so nearer ones end up on top
+const getOnionGhosts = (current: number, total: number, config: OnionSkinConfig): OnionGhost[] => {
+  const ghosts: OnionGhost[] = [];
+  const add = (count: number, direction: number, color: string) => {
+    for (let distance = count; distance >= 1; distance--) {
+      const index = current + direction * distance;
+      if (index < 0 || index >= total) continue;
+      ghosts.push({ index, color, alpha: config.opacity * (1 - (distance - 1) / count) });
+    }
+  };
+  add(config.before, -1, config.beforeColor);
+  add(config.after, 1, config.afterColor);
+  return ghosts;
+};
 
 interface CanvasPlayerProps {
   mode: AppMode;
@@ -8,8 +73,22 @@ interface CanvasPlayerProps {
   currentFrameIndex: number;
   scale: number;
   backgroundColor: string;
+  exportOptions: ExportOptions;
+  layout: FrameLayout;
+  onionSkin?: OnionSkinConfig;
+  filters?: FrameFilter[];
+  overlays?: Overlay[];
+  onCropChange?: (crop: Rect) => void; // Enables the crop handles while a crop is set
+  onOffsetChange?: (offset: FrameOffset) => void; // Enables dragging / arrow-key nudging of the current frame
 }
 
+// Stable default, a fresh array would redraw on every render
+const NO_FILTERS: FrameFilter[] = [];
+const NO_OVERLAYS: Overlay[] = [];
+
+// Frames decoded ahead of the current one on each side
+const PREFETCH_FRAMES = 4;
+
 export const CanvasPlayer: React.FC<CanvasPlayerProps> = ({
   mode,
   frames,
@@ -17,9 +96,20 @@ export const CanvasPlayer: React.FC<CanvasPlayerProps> = ({
   currentFrameIndex,
   scale,
   backgroundColor,
+  exportOptions,
+  layout,
+  onionSkin,
+  filters = NO_FILTERS,
+  overlays = NO_OVERLAYS,
+  onCropChange,
+  onOffsetChange,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onionCanvasRef = useRef<HTMLCanvasElement>(null);
   const [imageObj, setImageObj] = useState<HTMLImageElement | null>(null);
+  const [cropDrag, setCropDrag] = useState<CropDrag | null>(null);
+  const [offsetDrag, setOffsetDrag] = useState<OffsetDrag | null>(null);
+  const [overlayCanvases, setOverlayCanvases] = useState<{ overlay: Overlay; canvas: HTMLCanvasElement }[]>([]);
 
   // Load the sprite sheet image into memory when it changes
   useEffect(() => {
@@ -32,44 +122,31 @@ export const CanvasPlayer: React.FC<CanvasPlayerProps> = ({
     }
   }, [mode, spriteConfig.originalImage]);
 
-  const getFrameImage = (url: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.src = url;
-      if (img.complete) {
-        resolve(img);
-      } else {
-        img.onload = () => resolve(img);
-      }
-    });
-  };
+  // The same rasterized layers the exporters composite
+  useEffect(() => {
+    let cancelled = false;
+    loadOverlayLayers(overlays)
+      .then(layers => {
+        if (cancelled) return;
+        setOverlayCanvases(layers.map(({ overlay, image }) => {
+          const canvas = document.createElement('canvas');
+          canvas.width = image.width;
+          canvas.height = image.height;
+          canvas.getContext('2d')?.putImageData(new ImageData(image.pixels, image.width, image.height), 0, 0);
+          return { overlay, canvas };
+        }));
+      })
+      .catch(error => console.error("Overlay rendering failed", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [overlays]);
 
-  // Calculate Base Dimensions (Resolution)
-  let baseWidth = 0;
-  let baseHeight = 0;
-  let hasContent = false;
-
-  if (mode === AppMode.MULTI_IMAGE) {
-    if (frames.length > 0) {
-      const frame = frames[currentFrameIndex % frames.length];
-      if (frame) {
-        baseWidth = frame.width;
-        baseHeight = frame.height;
-        hasContent = true;
-      }
-    }
-  } else if (mode === AppMode.SPRITE_SHEET && spriteConfig.originalImage) {
-    const { rows, cols } = spriteConfig;
-    baseWidth = Math.floor(spriteConfig.originalImage.width / cols);
-    baseHeight = Math.floor(spriteConfig.originalImage.height / rows);
-    hasContent = true;
-  }
-
-  // Fallback dimensions for empty state
-  if (!hasContent) {
-    baseWidth = 300;
-    baseHeight = 300;
-  }
+  // Canvas resolution comes from the shared frame layout
+  const placement = layout.placements[currentFrameIndex];
+  const hasContent = layout.placements.length > 0;
+  const baseWidth = hasContent ? layout.width : 300; // Fallback for the empty state
+  const baseHeight = hasContent ? layout.height : 300;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -80,63 +157,278 @@ export const CanvasPlayer: React.FC<CanvasPlayerProps> = ({
     // We rely on React prop updates to set canvas.width/height, 
     // which clears the canvas. We just need to draw.
 
-    const draw = async () => {
-      // Clear specifically if needed, though resizing does it.
-      ctx.clearRect(0, 0, baseWidth, baseHeight);
+    let cancelled = false;
 
+    const draw = async () => {
       if (mode === AppMode.MULTI_IMAGE) {
-        if (frames.length === 0) return;
-        
-        const frame = frames[currentFrameIndex % frames.length];
-        if (!frame) return;
+        const frame = frames[currentFrameIndex];
+        if (!frame || !placement) {
+          ctx.clearRect(0, 0, baseWidth, baseHeight);
+          return;
+        }
+
+        // Cached frames draw synchronously, so playback never shows an empty canvas
+        const bitmap = getCachedBitmap(frame.url) ?? await loadBitmap(frame.url);
+        // A newer draw has started while this image was loading
+        if (cancelled) return;
+        ctx.clearRect(0, 0, baseWidth, baseHeight);
+        drawLayoutFrame(ctx, mode, bitmap, spriteConfig, currentFrameIndex, placement);
 
-        const img = await getFrameImage(frame.url);
-        ctx.drawImage(img, 0, 0);
+        // Neighbours in both directions, for reverse and ping-pong playback too
+        const neighbours: string[] = [];
+        for (let d = 1; d <= PREFETCH_FRAMES; d++) {
+          neighbours.push(frames[(currentFrameIndex + d) % frames.length].url);
+          neighbours.push(frames[(currentFrameIndex - d + frames.length) % frames.length].url);
+        }
+        prefetchBitmaps(neighbours);
 
       } else if (mode === AppMode.SPRITE_SHEET) {
-        if (!spriteConfig.originalImage || !imageObj) return;
-
-        const { rows, cols } = spriteConfig;
-        
-        // Ensure we calculate based on the source image dimensions
-        const frameW = Math.floor(spriteConfig.originalImage.width / cols);
-        const frameH = Math.floor(spriteConfig.originalImage.height / rows);
-
-        const safeIndex = currentFrameIndex; 
-        const col = safeIndex % cols;
-        const row = Math.floor(safeIndex / cols);
-
-        const sx = col * frameW;
-        const sy = row * frameH;
-
-        ctx.drawImage(
-            imageObj, 
-            sx, sy, frameW, frameH, 
-            0, 0, frameW, frameH
-        );
+        ctx.clearRect(0, 0, baseWidth, baseHeight);
+        if (!placement || !spriteConfig.originalImage || !imageObj) return;
+        drawLayoutFrame(ctx, mode, imageObj, spriteConfig, currentFrameIndex, placement);
+      }
+
+      // Only the frame is on the canvas yet, so filtering all of it filters the frame
+      applyCanvasFilters(ctx, baseWidth, baseHeight, getActiveFilters(filters, getFilterFrameKey(mode, frames, currentFrameIndex)));
+
+      // Anchored to the exported area, as in renderAnimation
+      const area = clampCrop(exportOptions.crop, baseWidth, baseHeight);
+      for (const { overlay, canvas: layer } of overlayCanvases) {
+        if (!isOverlayVisible(overlay, currentFrameIndex)) continue;
+        const { x, y } = getOverlayPosition(overlay, layer.width, layer.height, area);
+        ctx.drawImage(layer, x, y);
+      }
+
+      const isGif = exportOptions.format === 'gif';
+      const previewQuantized = isGif && exportOptions.previewQuantized;
+      if (!isGif || (!exportOptions.transparent && !previewQuantized) || baseWidth === 0 || baseHeight === 0) return;
+
+      // Opaque exports are quantized after compositing onto the background
+      if (previewQuantized && !exportOptions.transparent) {
+        ctx.save();
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = backgroundColor;
+        ctx.fillRect(0, 0, baseWidth, baseHeight);
+        ctx.restore();
+      }
+
+      const imageData = ctx.getImageData(0, 0, baseWidth, baseHeight);
+      const pixels = imageData.data;
+
+      // Preview exactly which pixels the transparent GIF export will drop
+      if (exportOptions.transparent) {
+        const matte = exportOptions.matteColor ? hexToRgb(exportOptions.matteColor) : null;
+        applyAlphaThreshold(pixels, exportOptions.alphaThreshold, matte);
+      }
+
+      // A global palette is approximated from the current frame alone,
+      // building it from every frame on each redraw would stall playback
+      if (previewQuantized) {
+        const { palette, indices, transparentIndex } = quantize(pixels, baseWidth, {
+          maxColors: exportOptions.maxColors,
+          transparent: exportOptions.transparent,
+          dither: exportOptions.dither,
+          palette: exportOptions.customPalette ? paletteToBytes(exportOptions.customPalette) : null,
+        });
+        indices.forEach((index, i) => {
+          if (index !== transparentIndex) pixels.set(palette.subarray(index * 3, index * 3 + 3), i * 4);
+        });
       }
+
+      ctx.putImageData(imageData, 0, 0);
+    };
+
+    draw().catch(error => console.error("Frame draw failed", error));
+    return () => {
+      cancelled = true;
     };
 
-    draw();
+  }, [mode, frames, spriteConfig, currentFrameIndex, imageObj, placement, baseWidth, baseHeight, backgroundColor, exportOptions, filters, overlayCanvases]);
+
+  const showOnionSkin = Boolean(onionSkin?.enabled) && hasContent;
+
+  // Ghosts are drawn on their own canvas so they never reach the GIF preview
+  // processing above, nor anything the exporters render
+  useEffect(() => {
+    const canvas = onionCanvasRef.current;
+    if (!canvas || !onionSkin || !showOnionSkin) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    let cancelled = false;
 
-  }, [mode, frames, spriteConfig, currentFrameIndex, imageObj, baseWidth, baseHeight]);
+    const draw = async () => {
+      const ghosts = getOnionGhosts(currentFrameIndex, layout.placements.length, onionSkin);
+      const images = await Promise.all(ghosts.map(ghost => {
+        if (mode === AppMode.MULTI_IMAGE) return loadBitmap(frames[ghost.index].url);
+        return Promise.resolve(imageObj);
+      }));
+      if (cancelled) return;
+      ctx.clearRect(0, 0, baseWidth, baseHeight);
+
+      const tinted = document.createElement('canvas');
+      tinted.width = baseWidth;
+      tinted.height = baseHeight;
+      const tintedCtx = tinted.getContext('2d');
+      if (!tintedCtx) return;
+
+      ghosts.forEach((ghost, i) => {
+        const image = images[i];
+        // Bitmaps evicted while the other ghosts loaded are closed
+        if (!image || image.width === 0) return;
+        tintedCtx.clearRect(0, 0, baseWidth, baseHeight);
+        drawLayoutFrame(tintedCtx, mode, image, spriteConfig, ghost.index, layout.placements[ghost.index]);
+        applyCanvasFilters(tintedCtx, baseWidth, baseHeight, getActiveFilters(filters, getFilterFrameKey(mode, frames, ghost.index)));
+        // Flat tint keeps the frame's silhouette
+        tintedCtx.globalCompositeOperation = 'source-in';
+        tintedCtx.fillStyle = ghost.color;
+        tintedCtx.fillRect(0, 0, baseWidth, baseHeight);
+        tintedCtx.globalCompositeOperation = 'source-over';
+
+        ctx.globalAlpha = ghost.alpha;
+        ctx.drawImage(tinted, 0, 0);
+      });
+      ctx.globalAlpha = 1;
+    };
+
+    draw().catch(error => console.error("Onion skin draw failed", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [showOnionSkin, onionSkin, mode, frames, spriteConfig, currentFrameIndex, imageObj, layout, baseWidth, baseHeight, filters]);
+
+  // Follow the pointer on the window so drags keep working outside the canvas
+  useEffect(() => {
+    if (!cropDrag || !onCropChange) return;
+    const handleMove = (e: PointerEvent) => {
+      const dx = Math.round((e.clientX - cropDrag.startX) / scale);
+      const dy = Math.round((e.clientY - cropDrag.startY) / scale);
+      onCropChange(dragCrop(cropDrag.start, cropDrag.handle, dx, dy, baseWidth, baseHeight));
+    };
+    const handleUp = () => setCropDrag(null);
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [cropDrag, onCropChange, scale, baseWidth, baseHeight]);
+
+  useEffect(() => {
+    if (!offsetDrag || !onOffsetChange) return;
+    const handleMove = (e: PointerEvent) => {
+      onOffsetChange({
+        x: offsetDrag.start.x + Math.round((e.clientX - offsetDrag.startX) / scale),
+        y: offsetDrag.start.y + Math.round((e.clientY - offsetDrag.startY) / scale),
+      });
+    };
+    const handleUp = () => setOffsetDrag(null);
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [offsetDrag, onOffsetChange, scale]);
+
+  const currentOffset = getFrameOffset(mode, frames, spriteConfig, currentFrameIndex) ?? { x: 0, y: 0 };
+  const canNudge = hasContent && Boolean(onOffsetChange);
+
+  const startOffsetDrag = (e: React.PointerEvent) => {
+    if (!canNudge) return;
+    e.preventDefault();
+    canvasRef.current?.focus();
+    setOffsetDrag({ startX: e.clientX, startY: e.clientY, start: currentOffset });
+  };
+
+  // Arrow keys move the current frame by 1px, 10px with Shift
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const direction = NUDGE_KEYS[e.key];
+    if (!canNudge || !direction) return;
+    e.preventDefault();
+    const step = e.shiftKey ? 10 : 1;
+    onOffsetChange!({ x: currentOffset.x + direction[0] * step, y: currentOffset.y + direction[1] * step });
+  };
+
+  const crop = hasContent && exportOptions.crop && onCropChange ? clampCrop(exportOptions.crop, baseWidth, baseHeight) : null;
+
+  const startCropDrag = (handle: CropHandle) => (e: React.PointerEvent) => {
+    if (!crop) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setCropDrag({ handle, startX: e.clientX, startY: e.clientY, start: crop });
+  };
 
   return (
     <div 
       className="inline-block p-4 border border-gray-800 rounded-lg shadow-xl"
-      style={{ backgroundColor: backgroundColor }}
+      style={exportOptions.transparent && exportOptions.format !== 'webm' ? CHECKERBOARD_STYLE : { backgroundColor: backgroundColor }}
     >
-      <canvas
-        ref={canvasRef}
-        width={baseWidth}
-        height={baseHeight}
-        style={{
-          width: `${baseWidth * scale}px`,
-          height: `${baseHeight * scale}px`,
-          imageRendering: 'pixelated', // Keeps pixel art crisp when scaled up
-          display: 'block'
-        }}
-      />
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={baseWidth}
+          height={baseHeight}
+          tabIndex={canNudge ? 0 : undefined}
+          onPointerDown={startOffsetDrag}
+          onKeyDown={handleKeyDown}
+          title={canNudge ? '拖动或用方向键微调当前帧位置 (Shift 每次 10px)' : undefined}
+          className={canNudge ? 'outline-none focus:ring-1 focus:ring-blue-500 cursor-grab touch-none' : undefined}
+          style={{
+            width: `${baseWidth * scale}px`,
+            height: `${baseHeight * scale}px`,
+            imageRendering: 'pixelated', // Keeps pixel art crisp when scaled up
+            display: 'block'
+          }}
+        />
+
+        {showOnionSkin && (
+          <canvas
+            ref={onionCanvasRef}
+            width={baseWidth}
+            height={baseHeight}
+            className="absolute inset-0 pointer-events-none"
+            style={{
+              width: `${baseWidth * scale}px`,
+              height: `${baseHeight * scale}px`,
+              imageRendering: 'pixelated',
+            }}
+          />
+        )}
+
+        {crop && (
+          <>
+            {/* Dim everything outside the crop */}
+            <div className="absolute inset-0 overflow-hidden pointer-events-none">
+              <div
+                className="absolute"
+                style={{
+                  left: crop.x * scale,
+                  top: crop.y * scale,
+                  width: crop.w * scale,
+                  height: crop.h * scale,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)'
+                }}
+              />
+            </div>
+            <div
+              className="absolute border border-dashed border-yellow-400 cursor-move touch-none"
+              style={{ left: crop.x * scale, top: crop.y * scale, width: crop.w * scale, height: crop.h * scale }}
+              onPointerDown={startCropDrag('move')}
+              title={`裁切 ${crop.w}×${crop.h} @ ${crop.x},${crop.y}`}
+            >
+              {CROP_CORNERS.map(({ handle, style }) => (
+                <div
+                  key={handle}
+                  className="absolute w-2.5 h-2.5 bg-yellow-400 border border-gray-900 rounded-sm"
+                  style={style}
+                  onPointerDown={startCropDrag(handle)}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -1,25 +1,46 @@
 import React, { useCallback } from 'react';
 import { Upload, FileImage } from 'lucide-react';
+import { collectDroppedFiles, isArchiveFile } from '../utils/fileImport';
 
 interface DropzoneProps {
   onFilesDropped: (files: File[]) => void;
   multiple: boolean;
   label: string;
+  acceptJson?: boolean; // Also accept .json sidecars (sprite atlases)
+  acceptArchives?: boolean; // Also accept .zip archives, expanded by the receiver
 }
 
-export const Dropzone: React.FC<DropzoneProps> = ({ onFilesDropped, multiple, label }) => {
+const isJsonFile = (file: File) =>
+  file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+export const Dropzone: React.FC<DropzoneProps> = ({ onFilesDropped, multiple, label, acceptJson = false, acceptArchives = false }) => {
+  const isAccepted = useCallback(
+    (file: File) =>
+      file.type.startsWith('image/') ||
+      (acceptJson && isJsonFile(file)) ||
+      (acceptArchives && isArchiveFile(file)),
+    [acceptJson, acceptArchives]
+  );
+
+  // Dropped folders are searched recursively
   const handleDrop = useCallback(
-    (e: React.DragEvent<HTMLDivElement>) => {
+    async (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       e.stopPropagation();
-      const files = Array.from(e.dataTransfer.files).filter((file) =>
-        file.type.startsWith('image/')
-      );
+      let files: File[];
+      try {
+        files = (await collectDroppedFiles(e.dataTransfer)).filter(isAccepted);
+      } catch (error) {
+        // e.g. a subfolder the browser may not read
+        console.error("Reading dropped folder failed", error);
+        alert("读取拖入的文件夹失败，请检查访问权限");
+        return;
+      }
       if (files.length > 0) {
         onFilesDropped(files);
       }
     },
-    [onFilesDropped]
+    [onFilesDropped, isAccepted]
   );
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -29,9 +50,7 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesDropped, multiple, la
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const files = Array.from(e.target.files).filter((file) =>
-        file.type.startsWith('image/')
-      );
+      const files = Array.from<File>(e.target.files).filter(isAccepted);
       if (files.length > 0) {
         onFilesDropped(files);
       }
@@ -47,7 +66,7 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesDropped, multiple, la
       <input
         type="file"
         multiple={multiple}
-        accept="image/*"
+        accept={['image/*', ...(acceptJson ? ['.json', 'application/json'] : []), ...(acceptArchives ? ['.zip'] : [])].join(',')}
         onChange={handleChange}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
       />
@@ -0,0 +1,427 @@
+import React, { useRef } from 'react';
+import { Settings, Palette, X, Crop, Loader2 } from 'lucide-react';
+import { ExportFormat, ExportOptions, GifDitherMode, Rect } from '../types';
+import { parsePalette, PALETTE_FILE_EXTENSIONS } from '../utils/paletteParser';
+import { clampCrop, getOutputGeometry } from '../utils/exportGeometry';
+
+interface ExportSettingsProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  frameSize: { width: number; height: number }; // Rendered frame size before crop and resize
+  estimatedSize: number | null; // GIF bytes with the current settings, null while unknown
+  isEstimating: boolean;
+  onEstimate: () => void;
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; features: string }[] = [
+  { value: 'gif', label: 'GIF', features: '256色 · 1位透明 · 兼容性最好' },
+  { value: 'apng', label: 'APNG', features: '真彩色 · 完整Alpha · 无损' },
+  { value: 'webp', label: 'WebP', features: '真彩色 · 完整Alpha · 有损/无损可调' },
+  { value: 'webm', label: 'WebM', features: '视频 · 无透明 · 适合不自动播放GIF的平台' },
+];
+
+const DITHER_MODES: { value: GifDitherMode; label: string }[] = [
+  { value: 'none', label: '无' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg (误差扩散)' },
+  { value: 'bayer', label: 'Bayer (有序)' },
+];
+
+const OUTPUT_SCALES = [0.25, 0.5, 1, 2, 3, 4, 6, 8];
+const VIDEO_BITRATES = [1_000_000, 2_500_000, 5_000_000, 8_000_000, 16_000_000];
+
+const formatFileSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B`
+  : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB`
+  : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const inputClassName = "w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-blue-500 outline-none transition-colors";
+
+export const ExportSettings: React.FC<ExportSettingsProps> = ({ options, onChange, frameSize, estimatedSize, isEstimating, onEstimate }) => {
+  const update = (patch: Partial<ExportOptions>) => onChange({ ...options, ...patch });
+  const format = EXPORT_FORMATS.find(f => f.value === options.format) ?? EXPORT_FORMATS[0];
+  const isGif = options.format === 'gif';
+  const paletteInputRef = useRef<HTMLInputElement>(null);
+  const hasFrame = frameSize.width > 0 && frameSize.height > 0;
+  const crop = clampCrop(options.crop, frameSize.width, frameSize.height);
+  const output = getOutputGeometry(frameSize.width, frameSize.height, options);
+
+  const updateCrop = (patch: Partial<Rect>) => {
+    update({ crop: clampCrop({ ...crop, ...patch }, frameSize.width, frameSize.height) });
+  };
+
+  const handlePaletteFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ customPalette: parsePalette(file.name, await file.arrayBuffer()) });
+    } catch (error) {
+      console.error(error);
+      alert("调色板解析失败，请检查文件格式");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+        <Settings className="w-4 h-4 text-gray-400" />
+        导出设置
+      </label>
+
+      <div>
+        <div className="flex bg-gray-800 rounded-lg p-1">
+          {EXPORT_FORMATS.map(f => (
+            <button
+              key={f.value}
+              onClick={() => update({ format: f.value })}
+              className={`flex-1 py-1 rounded-md text-xs transition-colors ${options.format === f.value ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[11px] text-gray-500 mt-1">{format.features}</p>
+      </div>
+
+      {options.format !== 'webm' && (
+        <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+          <span>透明背景</span>
+          <input
+            type="checkbox"
+            checked={options.transparent}
+            onChange={(e) => update({ transparent: e.target.checked })}
+            className="accent-blue-500"
+          />
+        </label>
+      )}
+
+      <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+        <div className="flex justify-between items-center">
+          <span className="text-xs text-gray-400">输出尺寸</span>
+          {hasFrame && (
+            <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{output.width}×{output.height}</span>
+          )}
+        </div>
+
+        <div className="flex bg-gray-900 rounded-lg p-1">
+          <button
+            onClick={() => update({ resizeMode: 'scale' })}
+            className={`flex-1 py-1 rounded-md text-xs transition-colors ${options.resizeMode === 'scale' ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+          >
+            按倍数
+          </button>
+          <button
+            onClick={() => update({ resizeMode: 'size' })}
+            className={`flex-1 py-1 rounded-md text-xs transition-colors ${options.resizeMode === 'size' ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+          >
+            指定尺寸
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {options.resizeMode === 'scale' ? (
+            <div>
+              <label className="text-xs text-gray-400 mb-1 block">倍数</label>
+              <select
+                value={options.outputScale}
+                onChange={(e) => update({ outputScale: parseFloat(e.target.value) })}
+                className={inputClassName}
+              >
+                {OUTPUT_SCALES.map(scale => (
+                  <option key={scale} value={scale}>{scale}x</option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-1">
+              <div>
+                <label className="text-xs text-gray-400 mb-1 block">宽</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={options.outputWidth}
+                  onChange={(e) => update({ outputWidth: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className={inputClassName}
+                  title="0 = 按比例"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400 mb-1 block">高</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={options.outputHeight}
+                  onChange={(e) => update({ outputHeight: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className={inputClassName}
+                  title="0 = 按比例"
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="text-xs text-gray-400 mb-1 block">重采样</label>
+            <select
+              value={options.resampling}
+              onChange={(e) => update({ resampling: e.target.value as ExportOptions['resampling'] })}
+              className={inputClassName}
+            >
+              <option value="nearest">最近邻 (像素风)</option>
+              <option value="smooth">平滑</option>
+            </select>
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+          <span className="flex items-center gap-1.5">
+            <Crop className="w-3.5 h-3.5" />
+            裁切 (可在预览中拖动调整)
+          </span>
+          <input
+            type="checkbox"
+            checked={options.crop !== null}
+            disabled={!hasFrame}
+            onChange={(e) => update({ crop: e.target.checked ? clampCrop(null, frameSize.width, frameSize.height) : null })}
+            className="accent-blue-500"
+          />
+        </label>
+
+        {options.crop && hasFrame && (
+          <div className="grid grid-cols-4 gap-1">
+            {(['x', 'y', 'w', 'h'] as const).map(key => (
+              <div key={key}>
+                <label className="text-xs text-gray-400 mb-1 block uppercase">{key}</label>
+                <input
+                  type="number"
+                  min={key === 'w' || key === 'h' ? 1 : 0}
+                  value={crop[key]}
+                  onChange={(e) => updateCrop({ [key]: parseInt(e.target.value) || 0 })}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {options.format === 'webm' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-gray-400 mb-1 block">重复次数</label>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={options.videoRepeat}
+              onChange={(e) => update({ videoRepeat: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-400 mb-1 block">码率</label>
+            <select
+              value={options.videoBitrate}
+              onChange={(e) => update({ videoBitrate: parseInt(e.target.value) })}
+              className={inputClassName}
+            >
+              {VIDEO_BITRATES.map(bitrate => (
+                <option key={bitrate} value={bitrate}>{bitrate / 1_000_000} Mbps</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {options.format === 'webp' && (
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-xs text-gray-400">质量</label>
+            <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">
+              {options.webpQuality >= 1 ? '无损' : Math.round(options.webpQuality * 100)}
+            </span>
+          </div>
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={options.webpQuality}
+            onChange={(e) => update({ webpQuality: parseFloat(e.target.value) })}
+            className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+      )}
+
+      {isGif && (
+        <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+          {options.customPalette ? (
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-xs text-gray-400">固定调色板: {options.customPalette.length} 色</span>
+                <button
+                  onClick={() => update({ customPalette: null })}
+                  className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+                  title="移除调色板，改为自动量化"
+                >
+                  <X className="w-3 h-3" /> 移除
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-px">
+                {options.customPalette.map(([r, g, b], i) => (
+                  <span
+                    key={i}
+                    className="w-3 h-3 rounded-sm"
+                    style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+                    title={`rgb(${r}, ${g}, ${b})`}
+                  />
+                ))}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="text-xs text-gray-400 mb-1 block">调色板</label>
+                <div className="flex bg-gray-900 rounded-lg p-1">
+                  <button
+                    onClick={() => update({ paletteMode: 'global' })}
+                    className={`flex-1 py-1 rounded-md text-xs transition-colors ${options.paletteMode === 'global' ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    全局共用
+                  </button>
+                  <button
+                    onClick={() => update({ paletteMode: 'local' })}
+                    className={`flex-1 py-1 rounded-md text-xs transition-colors ${options.paletteMode === 'local' ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    逐帧独立
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="text-xs text-gray-400">最大颜色数</label>
+                  <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{options.maxColors}</span>
+                </div>
+                <input
+                  type="range"
+                  min="2"
+                  max="256"
+                  value={options.maxColors}
+                  onChange={(e) => update({ maxColors: parseInt(e.target.value) })}
+                  className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="text-xs text-gray-400 mb-1 block">抖动</label>
+            <select
+              value={options.dither}
+              onChange={(e) => update({ dither: e.target.value as GifDitherMode })}
+              className={inputClassName}
+            >
+              {DITHER_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.previewQuantized}
+                onChange={(e) => update({ previewQuantized: e.target.checked })}
+                className="accent-blue-500"
+              />
+              预览量化效果
+            </label>
+            <button
+              onClick={() => paletteInputRef.current?.click()}
+              className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+              title={`支持 ${PALETTE_FILE_EXTENSIONS.join(' / ')}`}
+            >
+              <Palette className="w-3 h-3" /> 导入调色板
+            </button>
+            <input
+              ref={paletteInputRef}
+              type="file"
+              accept={PALETTE_FILE_EXTENSIONS.join(',')}
+              onChange={handlePaletteFile}
+              className="hidden"
+            />
+          </div>
+
+          <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+            <span title="只编码每帧相对上一帧变化的区域，并合并连续的相同帧">体积优化 (差分帧)</span>
+            <input
+              type="checkbox"
+              checked={options.optimize}
+              onChange={(e) => update({ optimize: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+
+          {hasFrame && (
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-gray-400">预计文件大小</span>
+              {estimatedSize !== null || isEstimating ? (
+                <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded flex items-center gap-1">
+                  {isEstimating && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {estimatedSize !== null ? formatFileSize(estimatedSize) : '计算中'}
+                </span>
+              ) : (
+                <button
+                  onClick={onEstimate}
+                  className="px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-[11px] text-gray-300 transition-colors"
+                  title="按当前设置完整编码一次，修改设置后需重新计算"
+                >
+                  计算
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isGif && options.transparent && (
+        <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-xs text-gray-400">透明阈值 (Alpha)</label>
+              <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{options.alphaThreshold}</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="255"
+              value={options.alphaThreshold}
+              onChange={(e) => update({ alphaThreshold: parseInt(e.target.value) })}
+              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.matteColor !== null}
+                onChange={(e) => update({ matteColor: e.target.checked ? '#ffffff' : null })}
+                className="accent-blue-500"
+              />
+              边缘混合色 (Matte)
+            </label>
+            {options.matteColor !== null && (
+              <input
+                type="color"
+                value={options.matteColor}
+                onChange={(e) => update({ matteColor: e.target.value })}
+                className="w-8 h-6 bg-transparent border border-gray-600 rounded cursor-pointer p-0"
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
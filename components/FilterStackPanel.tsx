@@ -0,0 +1,193 @@
+import React from 'react';
+import { SlidersHorizontal, ChevronUp, ChevronDown, Trash2, Plus } from 'lucide-react';
+import { FrameFilter, FrameFilterType } from '../types';
+import { createFrameFilter, FRAME_FILTER_LABELS } from '../utils/frameFilters';
+
+interface FilterStackPanelProps {
+  filters: FrameFilter[];
+  onChange: (filters: FrameFilter[]) => void;
+  selectedKeys: string[]; // Frame keys a new scope "selected frames" would cover
+}
+
+// Short names for the add buttons
+const ADD_BUTTON_LABELS: Record<FrameFilterType, string> = {
+  chromaKey: '抠图',
+  adjust: '调色',
+  replaceColor: '换色',
+};
+
+const colorInputClassName = "w-8 h-6 bg-transparent border border-gray-600 rounded cursor-pointer p-0";
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, unit = '', onChange }) => (
+  <div>
+    <div className="flex justify-between items-center mb-1">
+      <label className="text-xs text-gray-400">{label}</label>
+      <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{value}{unit}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+    />
+  </div>
+);
+
+export const FilterStackPanel: React.FC<FilterStackPanelProps> = ({ filters, onChange, selectedKeys }) => {
+  const update = (id: string, patch: Partial<FrameFilter>) => {
+    onChange(filters.map(filter => (filter.id === id ? { ...filter, ...patch } as FrameFilter : filter)));
+  };
+
+  const move = (index: number, direction: number) => {
+    const target = index + direction;
+    if (target < 0 || target >= filters.length) return;
+    const next = [...filters];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-xs text-gray-400">
+          <SlidersHorizontal className="w-3 h-3" />
+          滤镜
+        </span>
+        <div className="flex gap-1">
+          {(Object.keys(ADD_BUTTON_LABELS) as FrameFilterType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => onChange([...filters, createFrameFilter(type)])}
+              className="flex items-center gap-0.5 px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-[11px] text-gray-300 transition-colors"
+              title={`添加${FRAME_FILTER_LABELS[type]}`}
+            >
+              <Plus className="w-3 h-3" />
+              {ADD_BUTTON_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {filters.length === 0 && (
+        <p className="text-[11px] text-gray-500">滤镜不修改原图，预览和所有导出都会应用，自上而下依次处理</p>
+      )}
+
+      {filters.map((filter, index) => (
+        <div key={filter.id} className="p-2 bg-gray-900 rounded space-y-2 border border-gray-700">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={filter.enabled}
+              onChange={(e) => update(filter.id, { enabled: e.target.checked })}
+              className="accent-blue-500"
+              title="启用"
+            />
+            <span className={`flex-1 text-xs ${filter.enabled ? 'text-gray-200' : 'text-gray-500'}`}>
+              {FRAME_FILTER_LABELS[filter.type]}
+            </span>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="text-gray-400 hover:text-white disabled:opacity-30"
+              title="上移"
+            >
+              <ChevronUp className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === filters.length - 1}
+              className="text-gray-400 hover:text-white disabled:opacity-30"
+              title="下移"
+            >
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => onChange(filters.filter(f => f.id !== filter.id))}
+              className="text-gray-400 hover:text-red-400"
+              title="删除"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          <div className="flex bg-gray-800 rounded-lg p-1">
+            <button
+              onClick={() => update(filter.id, { frameKeys: null })}
+              className={`flex-1 py-1 rounded-md text-xs transition-colors ${filter.frameKeys === null ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+            >
+              全部帧
+            </button>
+            <button
+              onClick={() => update(filter.id, { frameKeys: [...selectedKeys] })}
+              disabled={selectedKeys.length === 0}
+              className={`flex-1 py-1 rounded-md text-xs transition-colors disabled:opacity-50 ${filter.frameKeys !== null ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+              title="应用到当前选中的帧，再次点击可更新为新的选择"
+            >
+              {filter.frameKeys !== null ? `指定 ${filter.frameKeys.length} 帧` : '选中的帧'}
+            </button>
+          </div>
+
+          {filter.type === 'chromaKey' && (
+            <>
+              <div className="flex items-center justify-between">
+                <label className="text-xs text-gray-400">抠除颜色</label>
+                <input
+                  type="color"
+                  value={filter.color}
+                  onChange={(e) => update(filter.id, { color: e.target.value })}
+                  className={colorInputClassName}
+                />
+              </div>
+              <Slider label="容差" value={filter.tolerance} min={0} max={100} onChange={(tolerance) => update(filter.id, { tolerance })} />
+              <Slider label="边缘柔化" value={filter.softness} min={0} max={100} onChange={(softness) => update(filter.id, { softness })} />
+            </>
+          )}
+
+          {filter.type === 'adjust' && (
+            <>
+              <Slider label="亮度" value={filter.brightness} min={-100} max={100} onChange={(brightness) => update(filter.id, { brightness })} />
+              <Slider label="对比度" value={filter.contrast} min={-100} max={100} onChange={(contrast) => update(filter.id, { contrast })} />
+              <Slider label="饱和度" value={filter.saturation} min={-100} max={100} onChange={(saturation) => update(filter.id, { saturation })} />
+              <Slider label="色相" value={filter.hue} min={-180} max={180} unit="°" onChange={(hue) => update(filter.id, { hue })} />
+            </>
+          )}
+
+          {filter.type === 'replaceColor' && (
+            <>
+              <div className="flex items-center justify-between">
+                <label className="text-xs text-gray-400">原颜色 → 新颜色</label>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="color"
+                    value={filter.from}
+                    onChange={(e) => update(filter.id, { from: e.target.value })}
+                    className={colorInputClassName}
+                  />
+                  <span className="text-xs text-gray-500">→</span>
+                  <input
+                    type="color"
+                    value={filter.to}
+                    onChange={(e) => update(filter.id, { to: e.target.value })}
+                    className={colorInputClassName}
+                  />
+                </div>
+              </div>
+              <Slider label="容差" value={filter.tolerance} min={0} max={100} onChange={(tolerance) => update(filter.id, { tolerance })} />
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
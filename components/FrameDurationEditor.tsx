@@ -0,0 +1,52 @@
+import React from 'react';
+import { Clock, RotateCcw } from 'lucide-react';
+
+interface FrameDurationEditorProps {
+  frameIndex: number;
+  duration: number | undefined; // Override in ms, undefined = use FPS
+  fps: number;
+  onChange: (duration: number | undefined) => void;
+}
+
+export const FrameDurationEditor: React.FC<FrameDurationEditorProps> = ({
+  frameIndex,
+  duration,
+  fps,
+  onChange,
+}) => {
+  const defaultDuration = Math.round(1000 / fps);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value);
+    onChange(Number.isFinite(value) && value > 0 ? value : undefined);
+  };
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="flex items-center gap-1.5 text-xs text-gray-400">
+          <Clock className="w-3 h-3" />
+          第 {frameIndex + 1} 帧时长 (ms)
+        </label>
+        {duration !== undefined && (
+          <button
+            onClick={() => onChange(undefined)}
+            className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+            title="恢复为帧率默认值"
+          >
+            <RotateCcw className="w-3 h-3" /> 默认
+          </button>
+        )}
+      </div>
+      <input
+        type="number"
+        min="1"
+        step="10"
+        value={duration ?? ''}
+        placeholder={`${defaultDuration} (按帧率)`}
+        onChange={handleChange}
+        className="w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-blue-500 outline-none transition-colors"
+      />
+    </div>
+  );
+};
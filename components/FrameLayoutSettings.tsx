@@ -0,0 +1,139 @@
+import React from 'react';
+import { LayoutGrid, RotateCcw } from 'lucide-react';
+import { CanvasSizePolicy, FrameLayoutConfig, FrameOffset } from '../types';
+import { FRAME_ANCHORS } from '../utils/frameLayout';
+
+interface FrameLayoutSettingsProps {
+  config: FrameLayoutConfig;
+  onChange: (patch: Partial<FrameLayoutConfig>) => void;
+  canvasSize: { width: number; height: number };
+  frameIndex: number;
+  offset: FrameOffset | undefined;
+  onOffsetChange: (offset: FrameOffset | undefined) => void;
+}
+
+const SIZE_POLICIES: { value: CanvasSizePolicy; label: string }[] = [
+  { value: 'first', label: '第一帧' },
+  { value: 'max', label: '最大帧' },
+  { value: 'custom', label: '自定义' },
+  { value: 'trim', label: '裁掉透明边' },
+];
+
+const inputClassName = "w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-blue-500 outline-none transition-colors";
+
+export const FrameLayoutSettings: React.FC<FrameLayoutSettingsProps> = ({
+  config,
+  onChange,
+  canvasSize,
+  frameIndex,
+  offset,
+  onOffsetChange,
+}) => {
+  const updateOffset = (patch: Partial<FrameOffset>) => {
+    const next = { x: 0, y: 0, ...offset, ...patch };
+    onOffsetChange(next.x === 0 && next.y === 0 ? undefined : next);
+  };
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+      <div className="flex justify-between items-center">
+        <label className="flex items-center gap-1.5 text-xs text-gray-400">
+          <LayoutGrid className="w-3 h-3" />
+          画布与对齐
+        </label>
+        <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{canvasSize.width}×{canvasSize.height}</span>
+      </div>
+
+      <div className="flex bg-gray-900 rounded-lg p-1">
+        {SIZE_POLICIES.map(policy => (
+          <button
+            key={policy.value}
+            onClick={() => onChange({
+              sizePolicy: policy.value,
+              // Start a custom size from the current one
+              ...(policy.value === 'custom' && config.customWidth === 0
+                ? { customWidth: canvasSize.width, customHeight: canvasSize.height }
+                : {}),
+            })}
+            className={`flex-1 py-1 rounded-md text-xs transition-colors ${config.sizePolicy === policy.value ? 'bg-blue-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+          >
+            {policy.label}
+          </button>
+        ))}
+      </div>
+
+      {config.sizePolicy === 'custom' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-gray-400 mb-1 block">画布宽</label>
+            <input
+              type="number"
+              min="1"
+              value={config.customWidth}
+              onChange={(e) => onChange({ customWidth: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-400 mb-1 block">画布高</label>
+            <input
+              type="number"
+              min="1"
+              value={config.customHeight}
+              onChange={(e) => onChange({ customHeight: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <div>
+          <label className="text-xs text-gray-400 mb-1 block">锚点</label>
+          <div className="grid grid-cols-3 gap-0.5 w-14">
+            {FRAME_ANCHORS.map(anchor => (
+              <button
+                key={anchor}
+                onClick={() => onChange({ anchor })}
+                className={`h-4 rounded-sm transition-colors ${config.anchor === anchor ? 'bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+                title={anchor}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1">
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-xs text-gray-400">第 {frameIndex + 1} 帧偏移</label>
+            {offset && (
+              <button
+                onClick={() => onOffsetChange(undefined)}
+                className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+                title="清除偏移"
+              >
+                <RotateCcw className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-1">
+            <input
+              type="number"
+              value={offset?.x ?? 0}
+              onChange={(e) => updateOffset({ x: parseInt(e.target.value) || 0 })}
+              className={inputClassName}
+              title="X"
+            />
+            <input
+              type="number"
+              value={offset?.y ?? 0}
+              onChange={(e) => updateOffset({ y: parseInt(e.target.value) || 0 })}
+              className={inputClassName}
+              title="Y"
+            />
+          </div>
+        </div>
+      </div>
+      <p className="text-[11px] text-gray-500">在预览中拖动帧或用方向键微调偏移</p>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeftRight, Copy, CopyPlus, Film, ImagePlus, Trash2 } from 'lucide-react';
+import { FrameData } from '../types';
+import {
+  duplicateFrames,
+  insertFrameCopies,
+  moveFrames,
+  removeFrames,
+  replaceFrameImage,
+  reverseFrames,
+} from '../utils/frameOperations';
+import { loadImageFile } from '../utils/imageUtils';
+import { getCachedThumbnail, loadThumbnail } from '../utils/imageCache';
+
+interface FrameTimelineProps {
+  frames: FrameData[];
+  currentFrameIndex: number;
+  selectedIds: string[];
+  onFramesChange: (frames: FrameData[]) => void;
+  onSelectionChange: (ids: string[], currentIndex: number) => void;
+}
+
+// Marks our own drags so files dragged in from the desktop are ignored
+const FRAME_DRAG_TYPE = 'application/x-frame-ids';
+
+interface FrameThumbnailProps {
+  frame: FrameData;
+  alt: string;
+  root: HTMLElement | null; // Scrolling strip the thumbnail becomes visible in
+}
+
+// Makes its thumbnail only once it scrolls near the visible part of the strip
+const FrameThumbnail: React.FC<FrameThumbnailProps> = ({ frame, alt, root }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [src, setSrc] = useState<string | null>(() => getCachedThumbnail(frame.url) ?? null);
+
+  useEffect(() => {
+    const cached = getCachedThumbnail(frame.url);
+    setSrc(cached ?? null);
+    const container = containerRef.current;
+    if (cached || !container) return;
+
+    let cancelled = false;
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
+      observer.disconnect();
+      loadThumbnail(frame.url, frame.width, frame.height)
+        .then(url => {
+          if (!cancelled) setSrc(url);
+        })
+        .catch(error => console.warn("Thumbnail failed", error));
+    }, { root, rootMargin: '0px 256px' });
+    observer.observe(container);
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [frame.url, root]);
+
+  return (
+    <div ref={containerRef} className="w-full h-full">
+      {src && <img src={src} className="w-full h-full object-contain pointer-events-none" alt={alt} />}
+    </div>
+  );
+};
+
+export const FrameTimeline: React.FC<FrameTimelineProps> = ({
+  frames,
+  currentFrameIndex,
+  selectedIds,
+  onFramesChange,
+  onSelectionChange,
+}) => {
+  const [draggedIds, setDraggedIds] = useState<Set<string> | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [copySource, setCopySource] = useState(1);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const [strip, setStrip] = useState<HTMLDivElement | null>(null);
+
+  const currentFrame = frames[currentFrameIndex];
+  const selected = new Set<string>(selectedIds);
+  // Operations act on the selection, or on the current frame when nothing is selected
+  const targetIds = selected.size > 0 ? selected : new Set<string>(currentFrame ? [currentFrame.id] : []);
+
+  const handleFrameClick = (e: React.MouseEvent, index: number) => {
+    const id = frames[index].id;
+    if (e.shiftKey && currentFrame) {
+      const from = Math.min(currentFrameIndex, index);
+      const to = Math.max(currentFrameIndex, index);
+      onSelectionChange(frames.slice(from, to + 1).map(f => f.id), index);
+    } else if (e.ctrlKey || e.metaKey) {
+      const next = selected.has(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id];
+      onSelectionChange(next, index);
+    } else {
+      onSelectionChange([id], index);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    const id = frames[index].id;
+    const ids = selected.has(id) ? selected : new Set<string>([id]);
+    setDraggedIds(ids);
+    e.dataTransfer.effectAllowed = 'copyMove';
+    e.dataTransfer.setData(FRAME_DRAG_TYPE, [...ids].join(','));
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!draggedIds) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = e.altKey ? 'copy' : 'move';
+    // Drop before or after the hovered frame depending on which half the pointer is in
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setDropIndex(e.clientX < rect.left + rect.width / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedIds && dropIndex !== null) {
+      // Alt-drag drops copies, like most editors
+      onFramesChange(e.altKey
+        ? insertFrameCopies(frames, draggedIds, dropIndex)
+        : moveFrames(frames, draggedIds, dropIndex));
+    }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDraggedIds(null);
+    setDropIndex(null);
+  };
+
+  const handleReverse = () => {
+    // With fewer than two frames selected the whole timeline is reversed
+    const ids = selected.size > 1 ? selected : new Set<string>(frames.map(f => f.id));
+    onFramesChange(reverseFrames(frames, ids));
+  };
+
+  const handleInsertCopy = () => {
+    const source = frames[copySource - 1];
+    if (!source) return;
+    onFramesChange(insertFrameCopies(frames, new Set<string>([source.id]), currentFrameIndex + 1));
+  };
+
+  const handleReplaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentFrame) return;
+    try {
+      const image = await loadImageFile(file);
+      onFramesChange(replaceFrameImage(frames, currentFrame.id, image));
+    } catch (error) {
+      console.error("Replace image failed", error);
+      alert("图片加载失败，请检查文件格式");
+    }
+  };
+
+  const toolButtonClassName = "flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-300 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="bg-gray-900 border-t border-gray-800 px-4 py-2 space-y-2 shrink-0">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="flex items-center gap-1.5 text-xs text-gray-400 mr-2">
+          <Film className="w-3.5 h-3.5" />
+          时间轴 ({frames.length})
+          {selected.size > 1 && <span className="text-blue-400">· 已选 {selected.size}</span>}
+        </span>
+        <button onClick={() => onFramesChange(duplicateFrames(frames, targetIds))} className={toolButtonClassName} title="在每个选中帧后插入一份副本">
+          <Copy className="w-3 h-3" /> 复制
+        </button>
+        <button onClick={handleReverse} className={toolButtonClassName} title="倒转选中帧的顺序 (未多选时倒转全部)">
+          <ArrowLeftRight className="w-3 h-3" /> 倒序
+        </button>
+        <div className="flex items-center gap-1">
+          <button onClick={handleInsertCopy} className={toolButtonClassName} title="把指定帧的副本插入到当前帧之后">
+            <CopyPlus className="w-3 h-3" /> 插入副本
+          </button>
+          <span className="text-xs text-gray-500">第</span>
+          <input
+            type="number"
+            min="1"
+            max={frames.length}
+            value={copySource}
+            onChange={(e) => setCopySource(Math.min(frames.length, Math.max(1, parseInt(e.target.value) || 1)))}
+            className="w-12 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-xs focus:border-blue-500 outline-none"
+          />
+          <span className="text-xs text-gray-500">帧</span>
+        </div>
+        <button onClick={() => replaceInputRef.current?.click()} disabled={!currentFrame} className={toolButtonClassName} title="替换当前帧的图片，保留时长和偏移">
+          <ImagePlus className="w-3 h-3" /> 替换图片
+        </button>
+        <input ref={replaceInputRef} type="file" accept="image/*" onChange={handleReplaceFile} className="hidden" />
+        <button onClick={() => onFramesChange(removeFrames(frames, targetIds))} className={`${toolButtonClassName} text-red-400`} title="删除选中帧">
+          <Trash2 className="w-3 h-3" /> 删除
+        </button>
+        <button onClick={() => onFramesChange([])} className="ml-auto text-red-400 hover:text-red-300 text-xs flex items-center gap-1">
+          <Trash2 className="w-3 h-3" /> 清空
+        </button>
+      </div>
+
+      <div
+        ref={setStrip}
+        className="flex gap-1.5 overflow-x-auto pb-1 custom-scrollbar"
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null);
+        }}
+      >
+        {frames.map((frame, idx) => (
+          <div
+            key={frame.id}
+            draggable
+            onClick={(e) => handleFrameClick(e, idx)}
+            onDragStart={(e) => handleDragStart(e, idx)}
+            onDragOver={(e) => handleDragOver(e, idx)}
+            onDrop={handleDrop}
+            onDragEnd={handleDragEnd}
+            className={`relative shrink-0 w-16 h-16 bg-gray-950 rounded overflow-hidden border-2 cursor-pointer transition-opacity ${
+              idx === currentFrameIndex ? 'border-blue-500' : selected.has(frame.id) ? 'border-blue-500/50' : 'border-gray-800'
+            } ${draggedIds?.has(frame.id) ? 'opacity-40' : ''}`}
+          >
+            {dropIndex === idx && <div className="absolute inset-y-0 left-0 w-1 bg-blue-400 z-10" />}
+            {dropIndex === idx + 1 && idx === frames.length - 1 && <div className="absolute inset-y-0 right-0 w-1 bg-blue-400 z-10" />}
+            <FrameThumbnail frame={frame} alt={`frame-${idx}`} root={strip} />
+            <div className="absolute bottom-0 left-0 bg-black/60 text-[10px] px-1 text-white">{idx + 1}</div>
+            {frame.duration !== undefined && (
+              <div className="absolute top-0 left-0 bg-blue-600/80 text-[9px] px-1 text-white">{frame.duration}ms</div>
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="text-[11px] text-gray-500">拖动排序 · 按住 Alt 拖动复制 · Ctrl/Shift 多选</p>
+    </div>
+  );
+};
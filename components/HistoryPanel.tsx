@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { HistoryEntry } from '../utils/history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  onJump: (index: number) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current step in view as the list grows
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [index, entries.length]);
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg space-y-2 border border-gray-700">
+      <div className="flex justify-between items-center">
+        <label className="flex items-center gap-1.5 text-xs text-gray-400">
+          <History className="w-3 h-3" />
+          历史记录
+        </label>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onJump(index - 1)}
+            disabled={index === 0}
+            className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            title="撤销 (Ctrl+Z)"
+          >
+            <Undo2 className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => onJump(index + 1)}
+            disabled={index >= entries.length - 1}
+            className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            title="重做 (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-0.5">
+        {entries.map((entry, i) => (
+          <button
+            key={`${i}-${entry.time}`}
+            ref={i === index ? activeRef : undefined}
+            onClick={() => onJump(i)}
+            className={`w-full flex justify-between gap-2 px-2 py-1 rounded text-left text-xs transition-colors ${
+              i === index
+                ? 'bg-blue-600 text-white'
+                : i > index
+                  ? 'text-gray-500 hover:bg-gray-700'
+                  : 'text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="shrink-0 opacity-60">{new Date(entry.time).toLocaleTimeString()}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
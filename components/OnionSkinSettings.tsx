@@ -0,0 +1,97 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { OnionSkinConfig } from '../types';
+
+interface OnionSkinSettingsProps {
+  config: OnionSkinConfig;
+  onChange: (patch: Partial<OnionSkinConfig>) => void;
+}
+
+const MAX_ONION_FRAMES = 10;
+
+const inputClassName = "w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-blue-500 outline-none transition-colors";
+
+const clampFrameCount = (value: string) => Math.min(MAX_ONION_FRAMES, Math.max(0, parseInt(value) || 0));
+
+export const OnionSkinSettings: React.FC<OnionSkinSettingsProps> = ({ config, onChange }) => {
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="flex items-center gap-1.5 text-xs text-gray-400">
+          <Layers className="w-3 h-3" />
+          洋葱皮
+        </span>
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="accent-blue-500"
+        />
+      </label>
+
+      {config.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="text-xs text-gray-400">前帧数</label>
+                <input
+                  type="color"
+                  value={config.beforeColor}
+                  onChange={(e) => onChange({ beforeColor: e.target.value })}
+                  className="w-6 h-4 bg-transparent border border-gray-600 rounded cursor-pointer p-0"
+                  title="前帧着色"
+                />
+              </div>
+              <input
+                type="number"
+                min="0"
+                max={MAX_ONION_FRAMES}
+                value={config.before}
+                onChange={(e) => onChange({ before: clampFrameCount(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="text-xs text-gray-400">后帧数</label>
+                <input
+                  type="color"
+                  value={config.afterColor}
+                  onChange={(e) => onChange({ afterColor: e.target.value })}
+                  className="w-6 h-4 bg-transparent border border-gray-600 rounded cursor-pointer p-0"
+                  title="后帧着色"
+                />
+              </div>
+              <input
+                type="number"
+                min="0"
+                max={MAX_ONION_FRAMES}
+                value={config.after}
+                onChange={(e) => onChange({ after: clampFrameCount(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-xs text-gray-400">不透明度</label>
+              <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{Math.round(config.opacity * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0.05"
+              max="1"
+              step="0.05"
+              value={config.opacity}
+              onChange={(e) => onChange({ opacity: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+          <p className="text-[11px] text-gray-500">仅在预览中显示，不影响导出</p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,280 @@
+import React, { useRef } from 'react';
+import { Stamp, ChevronUp, ChevronDown, Trash2, Type, ImagePlus } from 'lucide-react';
+import { Overlay } from '../types';
+import { FRAME_ANCHORS } from '../utils/frameLayout';
+import { createImageOverlay, createTextOverlay, OVERLAY_FONTS, OVERLAY_LABELS } from '../utils/overlays';
+import { loadImageData, readFileAsDataURL } from '../utils/imageUtils';
+
+interface OverlayPanelProps {
+  overlays: Overlay[];
+  onChange: (overlays: Overlay[]) => void;
+  frameCount: number;
+}
+
+const inputClassName = "w-full bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 outline-none transition-colors";
+const colorInputClassName = "w-8 h-6 bg-transparent border border-gray-600 rounded cursor-pointer p-0";
+const rangeClassName = "w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500";
+
+export const OverlayPanel: React.FC<OverlayPanelProps> = ({ overlays, onChange, frameCount }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (id: string, patch: Partial<Overlay>) => {
+    onChange(overlays.map(overlay => (overlay.id === id ? { ...overlay, ...patch } as Overlay : overlay)));
+  };
+
+  const move = (index: number, direction: number) => {
+    const target = index + direction;
+    if (target < 0 || target >= overlays.length) return;
+    const next = [...overlays];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      // Stored as a data URL so the watermark travels with the project
+      const src = await readFileAsDataURL(file);
+      const image = await loadImageData(src, file);
+      onChange([...overlays, createImageOverlay(file.name, src, image.width, image.height)]);
+    } catch (error) {
+      console.error("Watermark import failed", error);
+      alert("无法读取该图片");
+    }
+  };
+
+  const lastFrame = Math.max(0, frameCount - 1);
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-xs text-gray-400">
+          <Stamp className="w-3 h-3" />
+          文字与水印
+        </span>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onChange([...overlays, createTextOverlay()])}
+            className="flex items-center gap-0.5 px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-[11px] text-gray-300 transition-colors"
+            title="添加文字"
+          >
+            <Type className="w-3 h-3" />
+            文字
+          </button>
+          <button
+            onClick={() => imageInputRef.current?.click()}
+            className="flex items-center gap-0.5 px-1.5 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-[11px] text-gray-300 transition-colors"
+            title="添加图片水印"
+          >
+            <ImagePlus className="w-3 h-3" />
+            图片
+          </button>
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleImageSelect}
+          />
+        </div>
+      </div>
+
+      {overlays.length === 0 && (
+        <p className="text-[11px] text-gray-500">叠加在每一帧最上层，预览和所有动图导出都会带上，裁剪后仍贴着导出区域的边缘</p>
+      )}
+
+      {overlays.map((overlay, index) => (
+        <div key={overlay.id} className="p-2 bg-gray-900 rounded space-y-2 border border-gray-700">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={overlay.enabled}
+              onChange={(e) => update(overlay.id, { enabled: e.target.checked })}
+              className="accent-blue-500"
+              title="启用"
+            />
+            <span className={`flex-1 text-xs truncate ${overlay.enabled ? 'text-gray-200' : 'text-gray-500'}`}>
+              {OVERLAY_LABELS[overlay.type]}
+              <span className="text-gray-500 ml-1">{overlay.type === 'text' ? overlay.text.split('\n')[0] : overlay.name}</span>
+            </span>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="text-gray-400 hover:text-white disabled:opacity-30"
+              title="上移"
+            >
+              <ChevronUp className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === overlays.length - 1}
+              className="text-gray-400 hover:text-white disabled:opacity-30"
+              title="下移"
+            >
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => onChange(overlays.filter(o => o.id !== overlay.id))}
+              className="text-gray-400 hover:text-red-400"
+              title="删除"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {overlay.type === 'text' && (
+            <>
+              <textarea
+                value={overlay.text}
+                onChange={(e) => update(overlay.id, { text: e.target.value })}
+                rows={2}
+                className={`${inputClassName} resize-none`}
+              />
+              <div className="grid grid-cols-[1fr_4rem_auto] gap-1">
+                <select
+                  value={overlay.fontFamily}
+                  onChange={(e) => update(overlay.id, { fontFamily: e.target.value })}
+                  className={inputClassName}
+                >
+                  {OVERLAY_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min="4"
+                  value={overlay.fontSize}
+                  onChange={(e) => update(overlay.id, { fontSize: Math.max(4, parseInt(e.target.value) || 4) })}
+                  className={inputClassName}
+                  title="字号 (px)"
+                />
+                <button
+                  onClick={() => update(overlay.id, { bold: !overlay.bold })}
+                  className={`px-2 rounded text-xs font-bold transition-colors ${overlay.bold ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'}`}
+                  title="粗体"
+                >
+                  B
+                </button>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-xs text-gray-400">颜色</label>
+                <input
+                  type="color"
+                  value={overlay.color}
+                  onChange={(e) => update(overlay.id, { color: e.target.value })}
+                  className={colorInputClassName}
+                />
+                <label className="text-xs text-gray-400">描边</label>
+                <input
+                  type="color"
+                  value={overlay.strokeColor}
+                  onChange={(e) => update(overlay.id, { strokeColor: e.target.value })}
+                  className={colorInputClassName}
+                />
+                <div className="w-14">
+                  <input
+                    type="number"
+                    min="0"
+                    value={overlay.strokeWidth}
+                    onChange={(e) => update(overlay.id, { strokeWidth: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className={inputClassName}
+                    title="描边宽度 (px)"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {overlay.type === 'image' && (
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className="text-xs text-gray-400">缩放</label>
+                <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">
+                  {Math.round(overlay.width * overlay.scale)}×{Math.round(overlay.height * overlay.scale)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min="5"
+                max="200"
+                step="5"
+                value={Math.round(overlay.scale * 100)}
+                onChange={(e) => update(overlay.id, { scale: parseInt(e.target.value) / 100 })}
+                className={rangeClassName}
+              />
+            </div>
+          )}
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-xs text-gray-400">不透明度</label>
+              <span className="text-xs text-gray-300 bg-gray-700 px-1.5 rounded">{Math.round(overlay.opacity * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(overlay.opacity * 100)}
+              onChange={(e) => update(overlay.id, { opacity: parseInt(e.target.value) / 100 })}
+              className={rangeClassName}
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <div>
+              <label className="text-xs text-gray-400 mb-1 block">位置</label>
+              <div className="grid grid-cols-3 gap-0.5 w-14">
+                {FRAME_ANCHORS.map(anchor => (
+                  <button
+                    key={anchor}
+                    onClick={() => update(overlay.id, { anchor })}
+                    className={`h-4 rounded-sm transition-colors ${overlay.anchor === anchor ? 'bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    title={anchor}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="flex-1 grid grid-cols-3 gap-1">
+              <div>
+                <label className="text-xs text-gray-400 mb-1 block">边距</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={overlay.margin}
+                  onChange={(e) => update(overlay.id, { margin: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400 mb-1 block">起始帧</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={lastFrame + 1}
+                  value={overlay.fromFrame + 1}
+                  onChange={(e) => update(overlay.id, { fromFrame: Math.min(lastFrame, Math.max(0, (parseInt(e.target.value) || 1) - 1)) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="text-xs text-gray-400 mb-1 block">结束帧</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={lastFrame + 1}
+                  value={overlay.toFrame === null ? '' : overlay.toFrame + 1}
+                  placeholder="末帧"
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value);
+                    update(overlay.id, { toFrame: Number.isNaN(value) ? null : Math.min(lastFrame, Math.max(0, value - 1)) });
+                  }}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Wand2, Grid, Scan, Loader2 } from 'lucide-react';
+import { SpriteSheetAnalysis } from '../utils/spriteAnalyzer';
+
+interface SpriteAnalysisPanelProps {
+  analysis: SpriteSheetAnalysis | null;
+  isAnalyzing: boolean;
+  usingRegions: boolean;
+  onApplyGrid: () => void;
+  onApplyBounds: () => void;
+}
+
+export const SpriteAnalysisPanel: React.FC<SpriteAnalysisPanelProps> = ({
+  analysis,
+  isAnalyzing,
+  usingRegions,
+  onApplyGrid,
+  onApplyBounds,
+}) => {
+  if (isAnalyzing) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <Loader2 className="w-3 h-3 animate-spin" /> 正在分析雪碧图...
+      </div>
+    );
+  }
+  if (!analysis) return null;
+
+  const { grid, bounds } = analysis;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <Wand2 className="w-3 h-3" />
+        自动检测
+        <span className="text-gray-500">
+          ({analysis.background === 'transparent' ? '透明背景' : '纯色背景'})
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onApplyGrid}
+          disabled={!grid}
+          className={`flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs border transition-colors disabled:opacity-40 ${!usingRegions ? 'border-blue-500 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+          title="按检测到的网格切分"
+        >
+          <Grid className="w-3 h-3" />
+          {grid ? `${grid.rows}×${grid.cols} / ${grid.frameCount}帧` : '未检测到网格'}
+        </button>
+        <button
+          onClick={onApplyBounds}
+          disabled={bounds.length === 0}
+          className={`flex items-center justify-center gap-1 px-2 py-1.5 rounded text-xs border transition-colors disabled:opacity-40 ${usingRegions ? 'border-blue-500 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+          title="按每个精灵的包围盒切分 (不规则排列)"
+        >
+          <Scan className="w-3 h-3" />
+          精灵边界 {bounds.length}帧
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { RotateCcw, XCircle } from 'lucide-react';
+import { SpriteSheetConfig } from '../types';
+import { getSpriteCellCount, getSpriteCellRect, getSpriteSequence } from '../utils/spriteSlicing';
+
+interface SpriteGridEditorProps {
+  config: SpriteSheetConfig;
+  currentFrameIndex: number;
+  onSequenceChange: (sequence: number[] | null) => void;
+}
+
+/**
+ * Source image with the slicing grid drawn on top. Clicking a cell removes
+ * it from the frame sequence, or appends it when it is not part of it yet.
+ */
+export const SpriteGridEditor: React.FC<SpriteGridEditorProps> = ({
+  config,
+  currentFrameIndex,
+  onSequenceChange,
+}) => {
+  const image = config.originalImage;
+  if (!image) return null;
+
+  const sequence = getSpriteSequence(config);
+  const currentCell = sequence.length > 0 ? sequence[currentFrameIndex % sequence.length] : -1;
+
+  const handleCellClick = (cellIndex: number) => {
+    const next = sequence.includes(cellIndex)
+      ? sequence.filter(c => c !== cellIndex)
+      : [...sequence, cellIndex];
+    onSequenceChange(next);
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center text-xs text-gray-400">
+        <span>点击格子选择/跳过帧</span>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onSequenceChange(null)}
+            disabled={config.sequence === null}
+            className="flex items-center gap-1 hover:text-white disabled:opacity-40"
+            title="恢复为按顺序读取"
+          >
+            <RotateCcw className="w-3 h-3" /> 默认
+          </button>
+          <button
+            onClick={() => onSequenceChange([])}
+            className="flex items-center gap-1 hover:text-white"
+            title="清空后逐个点击构建序列"
+          >
+            <XCircle className="w-3 h-3" /> 清空
+          </button>
+        </div>
+      </div>
+
+      <div
+        className="relative w-full bg-gray-950 border border-gray-700 rounded overflow-hidden"
+        style={{ aspectRatio: `${image.width} / ${image.height}` }}
+      >
+        <img
+          src={image.url}
+          alt="sprite-sheet"
+          className="absolute inset-0 w-full h-full"
+          style={{ imageRendering: 'pixelated' }}
+        />
+        {Array.from({ length: getSpriteCellCount(config) }, (_, cellIndex) => {
+          const rect = getSpriteCellRect(config, cellIndex);
+          const positions = sequence
+            .map((c, i) => (c === cellIndex ? i + 1 : 0))
+            .filter(Boolean);
+          const selected = positions.length > 0;
+          return (
+            <button
+              key={cellIndex}
+              onClick={() => handleCellClick(cellIndex)}
+              className={`absolute border text-[9px] leading-none flex items-start justify-start p-0.5 transition-colors ${
+                cellIndex === currentCell
+                  ? 'border-blue-400 bg-blue-500/20'
+                  : selected
+                    ? 'border-green-400/70 hover:bg-green-500/10'
+                    : 'border-gray-500/40 bg-black/50 hover:bg-black/30'
+              }`}
+              style={{
+                left: percent(rect.x, image.width),
+                top: percent(rect.y, image.height),
+                width: percent(rect.w, image.width),
+                height: percent(rect.h, image.height),
+              }}
+            >
+              {selected && <span className="bg-black/60 text-white px-0.5 rounded-sm">{positions.join(',')}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Grid, Download, Loader2 } from 'lucide-react';
+import { AtlasFormat, SpriteSheetExportOptions } from '../types';
+
+interface SpriteSheetExportProps {
+  options: SpriteSheetExportOptions;
+  onChange: (options: SpriteSheetExportOptions) => void;
+  onExport: () => void;
+  isExporting: boolean;
+  frameCount: number;
+}
+
+const ATLAS_FORMATS: { value: AtlasFormat | ''; label: string }[] = [
+  { value: '', label: '仅图片' },
+  { value: 'hash', label: 'TexturePacker (Hash)' },
+  { value: 'array', label: 'TexturePacker (Array)' },
+  { value: 'phaser', label: 'Phaser 3' },
+];
+
+const inputClassName = "w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-blue-500 outline-none transition-colors";
+
+export const SpriteSheetExport: React.FC<SpriteSheetExportProps> = ({
+  options,
+  onChange,
+  onExport,
+  isExporting,
+  frameCount,
+}) => {
+  const update = (patch: Partial<SpriteSheetExportOptions>) => onChange({ ...options, ...patch });
+
+  const numberField = (label: string, key: 'cols' | 'padding' | 'extrude', min: number) => (
+    <div>
+      <label className="text-xs text-gray-400 mb-1 block">{label}</label>
+      <input
+        type="number"
+        min={min}
+        value={options[key]}
+        onChange={(e) => update({ [key]: Math.max(min, parseInt(e.target.value) || min) })}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg space-y-3 border border-gray-700">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+        <Grid className="w-4 h-4 text-gray-400" />
+        导出雪碧图
+      </label>
+
+      <div className="grid grid-cols-3 gap-2">
+        {numberField('列数', 'cols', 1)}
+        {numberField('间距', 'padding', 0)}
+        {numberField('边缘扩展', 'extrude', 0)}
+      </div>
+
+      <label className="flex items-center justify-between text-xs text-gray-400 cursor-pointer">
+        <span>尺寸取 2 的幂</span>
+        <input
+          type="checkbox"
+          checked={options.powerOfTwo}
+          onChange={(e) => update({ powerOfTwo: e.target.checked })}
+          className="accent-blue-500"
+        />
+      </label>
+
+      <div>
+        <label className="text-xs text-gray-400 mb-1 block">图集描述 (JSON)</label>
+        <select
+          value={options.atlasFormat ?? ''}
+          onChange={(e) => update({ atlasFormat: (e.target.value || null) as AtlasFormat | null })}
+          className={inputClassName}
+        >
+          {ATLAS_FORMATS.map(f => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={onExport}
+        disabled={isExporting || frameCount === 0}
+        className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded text-sm transition-colors"
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        导出雪碧图
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { SpriteFrameOrder, SpriteSheetConfig } from '../types';
+import { getSpriteCellSize } from '../utils/spriteSlicing';
+
+interface SpriteSlicingSettingsProps {
+  config: SpriteSheetConfig;
+  onChange: (patch: Partial<SpriteSheetConfig>) => void;
+}
+
+type NumericKey = 'margin' | 'spacing' | 'startOffset' | 'cellWidth' | 'cellHeight';
+
+const inputClassName = "w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-blue-500 outline-none transition-colors";
+
+export const SpriteSlicingSettings: React.FC<SpriteSlicingSettingsProps> = ({ config, onChange }) => {
+  const autoSize = getSpriteCellSize({ ...config, cellWidth: 0, cellHeight: 0 });
+
+  const numberField = (label: string, key: NumericKey, placeholder?: number) => (
+    <div>
+      <label className="text-xs text-gray-400 mb-1 block">{label}</label>
+      <input
+        type="number"
+        min="0"
+        value={config[key] || (placeholder !== undefined ? '' : 0)}
+        placeholder={placeholder !== undefined ? `${placeholder} (自动)` : undefined}
+        onChange={(e) => onChange({ [key]: Math.max(0, parseInt(e.target.value) || 0) })}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {numberField('外边距', 'margin')}
+        {numberField('格间距', 'spacing')}
+        {numberField('起始偏移', 'startOffset')}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {numberField('单元格宽', 'cellWidth', autoSize.width)}
+        {numberField('单元格高', 'cellHeight', autoSize.height)}
+      </div>
+      <div>
+        <label className="text-xs text-gray-400 mb-1 block">读取顺序</label>
+        <div className="flex bg-gray-950 rounded p-0.5 border border-gray-700">
+          {([['row', '按行'], ['column', '按列']] as [SpriteFrameOrder, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => onChange({ order: value })}
+              className={`flex-1 py-1 rounded text-xs transition-colors ${config.order === value ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,25 +3,226 @@ export enum AppMode {
   SPRITE_SHEET = 'SPRITE_SHEET'
 }
 
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface FrameOffset {
+  x: number;
+  y: number;
+}
+
 export interface FrameData {
   id: string;
   url: string; // Blob URL or Data URL
   file: File;
   width: number;
   height: number;
+  duration?: number; // ms, e.g. the original delay of a frame imported from a GIF
+  offset?: FrameOffset; // px, nudges the frame away from its anchored position
 }
 
+export interface AtlasFrame {
+  name: string;
+  frame: Rect; // Rect on the sheet; w/h are the unrotated sprite size
+  rotated: boolean; // Stored rotated 90° clockwise on the sheet
+  spriteSourceSize: Rect; // Position of the trimmed sprite inside its source size
+  sourceSize: { w: number; h: number }; // Size before trimming
+  duration?: number; // ms
+}
+
+export type AtlasTagDirection = 'forward' | 'reverse' | 'pingpong' | 'pingpong_reverse';
+
+export interface AtlasTag {
+  name: string;
+  from: number; // Inclusive frame indices
+  to: number;
+  direction: AtlasTagDirection;
+}
+
+export interface SpriteAtlas {
+  frames: AtlasFrame[];
+  tags: AtlasTag[];
+  image: string | null; // Sheet file name referenced by the JSON
+}
+
+export type SpriteFrameOrder = 'row' | 'column';
+
 export interface SpriteSheetConfig {
   rows: number;
   cols: number;
   totalFrames: number;
   originalImage: FrameData | null;
+  frameDurations?: Record<number, number>; // ms per frame index, overrides the FPS default
+  frameOffsets?: Record<number, FrameOffset>; // px per frame index, see FrameData.offset
+  margin: number; // Outer border in px around the whole grid
+  spacing: number; // Gutter in px between neighbouring cells
+  startOffset: number; // Cells skipped before the first frame
+  cellWidth: number; // Explicit cell size in px, 0 = derive from image size and cols
+  cellHeight: number; // Explicit cell size in px, 0 = derive from image size and rows
+  order: SpriteFrameOrder; // Row-major or column-major reading order
+  sequence: number[] | null; // Custom list of cell indices, overrides offset/totalFrames
+  regions: Rect[] | null; // Free-form frame rects (e.g. detected sprite bounds), replace the grid when set
+  atlas: SpriteAtlas | null; // Frames from a TexturePacker/Aseprite JSON, replace grid and regions
+  atlasTag: string | null; // Selected animation tag, null plays every atlas frame
 }
 
+// Order of imported sequence files
+export type ImportSortOrder = 'name' | 'modified' | 'suffix';
+
 export interface PlayerState {
   isPlaying: boolean;
   currentFrameIndex: number;
   fps: number;
   scale: number;
   backgroundColor: string;
-}
\ No newline at end of file
+}
+
+// How the animation canvas is sized from frames of different sizes
+export type CanvasSizePolicy = 'first' | 'max' | 'custom' | 'trim';
+
+export type FrameAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export interface FrameLayoutConfig {
+  sizePolicy: CanvasSizePolicy;
+  customWidth: number; // 'custom' policy only
+  customHeight: number;
+  anchor: FrameAnchor; // Where each frame sits when it differs from the canvas size
+}
+
+export type PlaybackDirection = 'forward' | 'reverse' | 'pingpong';
+
+export interface PlaybackConfig {
+  direction: PlaybackDirection;
+  inPoint: number; // First frame index of the looped range
+  outPoint: number | null; // Last frame index, null = last frame
+  loopCount: number; // Total plays, 0 = loop forever
+}
+
+export interface OnionSkinConfig {
+  enabled: boolean;
+  before: number; // Previous frames shown
+  after: number; // Next frames shown
+  opacity: number; // 0-1 for the nearest frames, farther ones fade out
+  beforeColor: string; // Tint hex
+  afterColor: string;
+}
+
+export type FrameFilterType = 'chromaKey' | 'adjust' | 'replaceColor';
+
+interface FrameFilterBase {
+  id: string;
+  enabled: boolean;
+  frameKeys: string[] | null; // Frames it applies to (see getFilterFrameKey), null = all
+}
+
+export interface ChromaKeyFilter extends FrameFilterBase {
+  type: 'chromaKey';
+  color: string; // Key hex
+  tolerance: number; // 0-100, distance keyed out completely
+  softness: number; // 0-100, width of the partially transparent edge beyond it
+}
+
+export interface ColorAdjustFilter extends FrameFilterBase {
+  type: 'adjust';
+  brightness: number; // -100 to 100
+  contrast: number; // -100 to 100
+  saturation: number; // -100 to 100
+  hue: number; // Degrees, -180 to 180
+}
+
+export interface ReplaceColorFilter extends FrameFilterBase {
+  type: 'replaceColor';
+  from: string; // Hex
+  to: string;
+  tolerance: number; // 0-100
+}
+
+export type FrameFilter = ChromaKeyFilter | ColorAdjustFilter | ReplaceColorFilter;
+
+export type OverlayType = 'text' | 'image';
+
+interface OverlayBase {
+  id: string;
+  enabled: boolean;
+  anchor: FrameAnchor; // Corner or edge of the exported area it sticks to
+  margin: number; // px from the anchored edges
+  opacity: number; // 0-1
+  fromFrame: number; // First frame index it is shown on
+  toFrame: number | null; // Last frame index, null = last frame
+}
+
+export interface TextOverlay extends OverlayBase {
+  type: 'text';
+  text: string; // May span several lines
+  fontFamily: string;
+  fontSize: number; // px
+  bold: boolean;
+  color: string; // Hex
+  strokeColor: string; // Hex
+  strokeWidth: number; // px, 0 = no outline
+}
+
+export interface ImageOverlay extends OverlayBase {
+  type: 'image';
+  name: string;
+  src: string; // Data URL, stored with the project
+  width: number; // Natural size in px
+  height: number;
+  scale: number; // Multiplier of the natural size
+}
+
+export type Overlay = TextOverlay | ImageOverlay;
+
+export type ExportFormat = 'gif' | 'apng' | 'webp' | 'webm';
+
+// Phases of an export: decoding the sources, composing the frames, writing the file
+export type ExportStage = 'loading' | 'rendering' | 'encoding';
+
+export type GifPaletteMode = 'global' | 'local';
+
+export type GifDitherMode = 'none' | 'floyd-steinberg' | 'bayer';
+
+export type PaletteColor = [number, number, number];
+
+export type ResizeMode = 'scale' | 'size';
+
+export type ResamplingMode = 'nearest' | 'smooth';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  transparent: boolean; // Keep alpha instead of filling with the background color
+  alphaThreshold: number; // GIF only: 0-255, pixels with lower alpha become transparent
+  matteColor: string | null; // GIF only: blend semi-transparent edges against this color
+  webpQuality: number; // WebP only: 0-1, 1 is lossless
+  videoRepeat: number; // WebM only: times the sequence is played in the clip
+  videoBitrate: number; // WebM only: bits per second
+  paletteMode: GifPaletteMode; // GIF only: one color table for the whole animation or one per frame
+  maxColors: number; // GIF only: 2-256
+  dither: GifDitherMode; // GIF only
+  customPalette: PaletteColor[] | null; // GIF only: fixed imported palette, replaces quantization
+  optimize: boolean; // GIF only: encode changed regions only and merge repeated frames
+  previewQuantized: boolean; // Show the GIF color reduction in the player (preview only)
+  crop: Rect | null; // In frame pixels, applied to every frame before resizing
+  resizeMode: ResizeMode;
+  outputScale: number; // 'scale' mode: multiplier of the (cropped) frame size
+  outputWidth: number; // 'size' mode: target pixels, 0 follows the aspect ratio of the other side
+  outputHeight: number;
+  resampling: ResamplingMode;
+}
+
+export type AtlasFormat = 'hash' | 'array' | 'phaser';
+
+export interface SpriteSheetExportOptions {
+  cols: number;
+  padding: number; // Empty pixels between cells and around the border
+  extrude: number; // Pixels of repeated edge around each frame, avoids bleeding when filtered
+  powerOfTwo: boolean;
+  atlasFormat: AtlasFormat | null; // null exports the image only
+}
@@ -0,0 +1,174 @@
+// APNG (animated PNG) encoder for full-canvas RGBA frames. Rows use
+// adaptive PNG filtering and are compressed with the platform's zlib
+// (CompressionStream), so it runs on the main thread, in workers and in Node.
+
+export interface ApngFrame {
+  pixels: Uint8ClampedArray; // RGBA, width * height * 4
+  delay: number; // ms
+}
+
+export interface ApngEncoderOptions {
+  width: number;
+  height: number;
+  loop?: number; // 0 loops forever
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint32 = (value: number): number[] => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const uint16 = (value: number): number[] => [(value >>> 8) & 0xff, value & 0xff];
+
+const chunk = (type: string, data: ArrayLike<number>): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+/**
+ * Applies a PNG filter to every scanline, picking per row the filter with
+ * the smallest sum of absolute values (the usual compression heuristic).
+ */
+export const filterScanlines = (pixels: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+  const best = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const prev = row - stride;
+    let bestFilter = 0;
+    let bestScore = Infinity;
+
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let x = 0; x < stride; x++) {
+        const raw = pixels[row + x];
+        const left = x >= 4 ? pixels[row + x - 4] : 0;
+        const up = y > 0 ? pixels[prev + x] : 0;
+        const upLeft = y > 0 && x >= 4 ? pixels[prev + x - 4] : 0;
+        let value: number;
+        switch (filter) {
+          case 1: value = raw - left; break;
+          case 2: value = raw - up; break;
+          case 3: value = raw - ((left + up) >> 1); break;
+          case 4: value = raw - paeth(left, up, upLeft); break;
+          default: value = raw;
+        }
+        value &= 0xff;
+        candidate[x] = value;
+        score += value < 128 ? value : 256 - value;
+        if (score >= bestScore) break;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best.set(candidate);
+      }
+    }
+
+    const offset = y * (stride + 1);
+    out[offset] = bestFilter;
+    out.set(best, offset + 1);
+  }
+
+  return out;
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const encodeApng = async (
+  frames: ApngFrame[],
+  options: ApngEncoderOptions,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> => {
+  const { width, height } = options;
+  if (frames.length === 0) throw new Error('No frames to encode');
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  parts.push(chunk('IHDR', [...uint32(width), ...uint32(height), 8, 6, 0, 0, 0]));
+  parts.push(chunk('acTL', [...uint32(frames.length), ...uint32(options.loop ?? 0)]));
+
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    if (frame.pixels.length !== width * height * 4) {
+      throw new Error('Frame size does not match APNG dimensions');
+    }
+
+    // Full-canvas frames: no disposal, overwrite (APNG_BLEND_OP_SOURCE)
+    const delay = Math.max(0, Math.min(0xffff, Math.round(frame.delay)));
+    parts.push(chunk('fcTL', [
+      ...uint32(sequence++),
+      ...uint32(width),
+      ...uint32(height),
+      ...uint32(0),
+      ...uint32(0),
+      ...uint16(delay),
+      ...uint16(1000),
+      0,
+      0,
+    ]));
+
+    const data = await deflate(filterScanlines(frame.pixels, width, height));
+    if (i === 0) {
+      parts.push(chunk('IDAT', data));
+    } else {
+      const payload = new Uint8Array(4 + data.length);
+      payload.set(uint32(sequence++), 0);
+      payload.set(data, 4);
+      parts.push(chunk('fdAT', payload));
+    }
+
+    onProgress?.((i + 1) / frames.length);
+  }
+
+  parts.push(chunk('IEND', []));
+
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
@@ -0,0 +1,121 @@
+import { AtlasFrame, AtlasTag, AtlasTagDirection, Rect, SpriteAtlas } from '../types';
+
+// Reads the JSON sidecars written by TexturePacker (Hash / Array), Aseprite
+// and Phaser 3 multi-atlases into a common SpriteAtlas model.
+
+const DIRECTIONS: AtlasTagDirection[] = ['forward', 'reverse', 'pingpong', 'pingpong_reverse'];
+
+// The sidecar is untrusted JSON, every field is checked before it is read
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const readString = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const toRect = (value: unknown, fallback: Rect): Rect => {
+  if (!isRecord(value)) return fallback;
+  return {
+    x: readNumber(value.x, 0),
+    y: readNumber(value.y, 0),
+    w: readNumber(value.w, 0),
+    h: readNumber(value.h, 0),
+  };
+};
+
+const toFrame = (name: string, entry: unknown): AtlasFrame => {
+  if (!isRecord(entry) || !isRecord(entry.frame)) {
+    throw new Error(`Atlas frame "${name}" has no frame rect`);
+  }
+  const frame = toRect(entry.frame, { x: 0, y: 0, w: 0, h: 0 });
+  const sourceSize = isRecord(entry.sourceSize)
+    ? { w: readNumber(entry.sourceSize.w, 0) || frame.w, h: readNumber(entry.sourceSize.h, 0) || frame.h }
+    : { w: frame.w, h: frame.h };
+  const duration = readNumber(entry.duration, 0);
+
+  return {
+    name,
+    frame,
+    rotated: entry.rotated === true,
+    spriteSourceSize: toRect(entry.spriteSourceSize, { x: 0, y: 0, w: frame.w, h: frame.h }),
+    sourceSize,
+    duration: duration > 0 ? duration : undefined,
+  };
+};
+
+const parseFrames = (frames: unknown): AtlasFrame[] => {
+  if (Array.isArray(frames)) {
+    return frames.map((entry: unknown, i) =>
+      toFrame((isRecord(entry) && readString(entry.filename)) || String(i), entry)
+    );
+  }
+  if (isRecord(frames)) {
+    return Object.entries(frames).map(([name, entry]) => toFrame(name, entry));
+  }
+  throw new Error('Atlas has no frames');
+};
+
+const toTag = (tag: unknown, frameCount: number): AtlasTag | null => {
+  if (!isRecord(tag)) return null;
+  const name = readString(tag.name);
+  if (name === null) return null;
+  const clampFrame = (value: unknown) => Math.max(0, Math.min(frameCount - 1, readNumber(value, 0)));
+  return {
+    name,
+    from: clampFrame(tag.from),
+    to: clampFrame(tag.to),
+    direction: DIRECTIONS.find(direction => direction === tag.direction) ?? 'forward',
+  };
+};
+
+const parseTags = (tags: unknown, frameCount: number): AtlasTag[] => {
+  if (!Array.isArray(tags)) return [];
+  return tags.map((tag: unknown) => toTag(tag, frameCount)).filter((tag): tag is AtlasTag => tag !== null);
+};
+
+export const parseSpriteAtlas = (json: unknown): SpriteAtlas => {
+  if (!isRecord(json)) throw new Error('Atlas JSON must be an object');
+
+  // Phaser 3 multi-atlas: only the first texture is used
+  if (Array.isArray(json.textures)) {
+    const texture: unknown = json.textures[0];
+    if (!isRecord(texture)) throw new Error('Atlas has no textures');
+    const frames = parseFrames(texture.frames);
+    if (frames.length === 0) throw new Error('Atlas has no frames');
+    return {
+      frames,
+      tags: [],
+      image: readString(texture.image),
+    };
+  }
+
+  const frames = parseFrames(json.frames);
+  if (frames.length === 0) throw new Error('Atlas has no frames');
+  const meta = isRecord(json.meta) ? json.meta : {};
+
+  return {
+    frames,
+    tags: parseTags(meta.frameTags, frames.length),
+    image: readString(meta.image),
+  };
+};
+
+// Atlas frame indices played by a tag, expanding its direction
+export const getAtlasTagFrames = (tag: AtlasTag): number[] => {
+  const from = Math.min(tag.from, tag.to);
+  const to = Math.max(tag.from, tag.to);
+  const forward = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  const reverse = [...forward].reverse();
+
+  switch (tag.direction) {
+    case 'reverse':
+      return reverse;
+    case 'pingpong':
+      return [...forward, ...reverse.slice(1, -1)];
+    case 'pingpong_reverse':
+      return [...reverse, ...forward.slice(1, -1)];
+    default:
+      return forward;
+  }
+};
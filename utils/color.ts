@@ -0,0 +1,6 @@
+export const hexToRgb = (hex: string): [number, number, number] => {
+  let value = hex.replace('#', '');
+  if (value.length === 3) value = value.split('').map(c => c + c).join('');
+  const num = parseInt(value, 16) || 0;
+  return [(num >> 16) & 0xff, (num >> 8) & 0xff, num & 0xff];
+};
@@ -0,0 +1,82 @@
+import { ExportOptions, Rect } from '../types';
+
+export type OutputGeometryOptions = Pick<ExportOptions, 'crop' | 'resizeMode' | 'outputScale' | 'outputWidth' | 'outputHeight'>;
+
+export interface OutputGeometry {
+  source: Rect; // Region of the rendered frame that is kept
+  width: number; // Final output size
+  height: number;
+}
+
+const MAX_OUTPUT_SIZE = 8192;
+
+const clampSize = (value: number) => Math.max(1, Math.min(MAX_OUTPUT_SIZE, Math.round(value)));
+
+/**
+ * Fits a crop rectangle inside a `width x height` frame, keeping at least
+ * one pixel. A null crop keeps the whole frame.
+ */
+export const clampCrop = (crop: Rect | null, width: number, height: number): Rect => {
+  if (!crop) return { x: 0, y: 0, w: width, h: height };
+  const x = Math.max(0, Math.min(width - 1, Math.round(crop.x)));
+  const y = Math.max(0, Math.min(height - 1, Math.round(crop.y)));
+  return {
+    x,
+    y,
+    w: Math.max(1, Math.min(width - x, Math.round(crop.w))),
+    h: Math.max(1, Math.min(height - y, Math.round(crop.h))),
+  };
+};
+
+/**
+ * Crop first, then resize: either by a multiplier or to a target size where
+ * a zero side follows the other side's aspect ratio (both zero keeps the
+ * cropped size).
+ */
+export const getOutputGeometry = (width: number, height: number, options: OutputGeometryOptions): OutputGeometry => {
+  const source = clampCrop(options.crop, width, height);
+
+  if (options.resizeMode === 'size' && (options.outputWidth > 0 || options.outputHeight > 0)) {
+    const targetWidth = options.outputWidth > 0 ? options.outputWidth : (options.outputHeight * source.w) / source.h;
+    const targetHeight = options.outputHeight > 0 ? options.outputHeight : (options.outputWidth * source.h) / source.w;
+    return { source, width: clampSize(targetWidth), height: clampSize(targetHeight) };
+  }
+
+  const scale = options.resizeMode === 'scale' && options.outputScale > 0 ? options.outputScale : 1;
+  return { source, width: clampSize(source.w * scale), height: clampSize(source.h * scale) };
+};
+
+export const isIdentityGeometry = (geometry: OutputGeometry, width: number, height: number): boolean =>
+  geometry.source.x === 0 &&
+  geometry.source.y === 0 &&
+  geometry.source.w === width &&
+  geometry.source.h === height &&
+  geometry.width === width &&
+  geometry.height === height;
+
+export type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+/**
+ * Applies a drag of `dx, dy` frame pixels to the crop rectangle it started
+ * from: 'move' shifts it within the frame, corners move their two edges.
+ */
+export const dragCrop = (start: Rect, handle: CropHandle, dx: number, dy: number, width: number, height: number): Rect => {
+  if (handle === 'move') {
+    return {
+      x: Math.max(0, Math.min(width - start.w, start.x + dx)),
+      y: Math.max(0, Math.min(height - start.h, start.y + dy)),
+      w: start.w,
+      h: start.h,
+    };
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.w;
+  let bottom = start.y + start.h;
+  if (handle === 'nw' || handle === 'sw') left = Math.max(0, Math.min(right - 1, left + dx));
+  if (handle === 'ne' || handle === 'se') right = Math.max(left + 1, Math.min(width, right + dx));
+  if (handle === 'nw' || handle === 'ne') top = Math.max(0, Math.min(bottom - 1, top + dy));
+  if (handle === 'sw' || handle === 'se') bottom = Math.max(top + 1, Math.min(height, bottom + dy));
+  return { x: left, y: top, w: right - left, h: bottom - top };
+};
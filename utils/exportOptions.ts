@@ -0,0 +1,29 @@
+import { ExportOptions } from '../types';
+
+// Starting settings of the app, also the command-line builder's defaults so
+// a bare CLI run matches an untouched web export
+
+export const DEFAULT_FPS = 8;
+export const DEFAULT_BACKGROUND_COLOR = '#2d3748'; // gray-750
+
+export const createExportOptions = (): ExportOptions => ({
+  format: 'gif',
+  transparent: false,
+  alphaThreshold: 128,
+  matteColor: null,
+  webpQuality: 1,
+  videoRepeat: 1,
+  videoBitrate: 5_000_000,
+  paletteMode: 'local',
+  maxColors: 256,
+  dither: 'none',
+  customPalette: null,
+  optimize: true,
+  previewQuantized: false,
+  crop: null,
+  resizeMode: 'scale',
+  outputScale: 1,
+  outputWidth: 0,
+  outputHeight: 0,
+  resampling: 'nearest',
+});
@@ -0,0 +1,62 @@
+import { AppMode, ExportOptions, FrameData, FrameFilter, FrameLayoutConfig, PlaybackConfig, SpriteSheetConfig } from '../types';
+import { OverlayLayer, renderAnimation, RenderedAnimation, RgbaImage } from './frameRenderer';
+import { encodeGif } from './gifEncoder';
+import { getGifEncoderOptions } from './gifExport';
+
+// Renders the frames of an export off the main thread and, for GIF, encodes
+// them right here. Other formats get the rendered frames back, since their
+// encoders need the browser's canvas or media APIs.
+
+export interface ExportWorkerRequest {
+  mode: AppMode;
+  frames: FrameData[];
+  spriteConfig: SpriteSheetConfig;
+  layoutConfig: FrameLayoutConfig;
+  playback: PlaybackConfig;
+  fps: number;
+  backgroundColor: string;
+  options: ExportOptions;
+  filters: FrameFilter[];
+  overlays: OverlayLayer[]; // Rasterized on the main thread, which can draw text
+  images: RgbaImage[]; // Decoded sources, see renderAnimation
+  encodeGif: boolean;
+}
+
+export type ExportWorkerResult =
+  | { type: 'rendered'; animation: RenderedAnimation }
+  | { type: 'finished'; data: ArrayBuffer };
+
+export type ExportWorkerResponse =
+  | ExportWorkerResult
+  | { type: 'progress'; stage: 'rendering' | 'encoding'; progress: number }
+  | { type: 'error'; message: string };
+
+const post = (message: ExportWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (e: MessageEvent<ExportWorkerRequest>) => {
+  const { mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, images } = e.data;
+  try {
+    const animation = renderAnimation(
+      mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, images,
+      progress => post({ type: 'progress', stage: 'rendering', progress })
+    );
+
+    if (!e.data.encodeGif) {
+      // Repeated frames share a buffer, which may only be transferred once
+      post({ type: 'rendered', animation }, [...new Set(animation.frames.map(f => f.pixels.buffer as ArrayBuffer))]);
+      return;
+    }
+
+    const data = encodeGif(
+      animation.frames,
+      getGifEncoderOptions(animation.width, animation.height, playback, options),
+      options.paletteMode === 'global',
+      progress => post({ type: 'progress', stage: 'encoding', progress })
+    ).buffer as ArrayBuffer;
+    post({ type: 'finished', data }, [data]);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,122 @@
+import { ImportSortOrder } from '../types';
+import { readZip } from './zipReader';
+
+// Turns whatever was dropped or picked (loose files, folders, ZIP archives)
+// into one flat, ordered list of files.
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  apng: 'image/apng',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  avif: 'image/avif',
+};
+
+const getExtension = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+
+export const isArchiveFile = (file: File) =>
+  file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || getExtension(file.name) === 'zip';
+
+// Skips macOS resource forks and hidden files such as .DS_Store
+const isHiddenPath = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns at most ~100 entries per call, so read until empty
+const readDirectory = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntryFiles = async (entry: FileSystemEntry, files: File[]) => {
+  if (entry.name.startsWith('.')) return;
+  if (entry.isFile) {
+    files.push(await readEntryFile(entry as FileSystemFileEntry));
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectEntryFiles(child, files);
+    }
+  }
+};
+
+/**
+ * Files of a drop, descending into dropped folders. Falls back to the plain
+ * file list where the entries API is unavailable.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously, the item list is cleared after the event
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from<File>(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await collectEntryFiles(entry!, files);
+  }
+  return files;
+};
+
+// Replaces each ZIP archive by the images it contains, in archive order
+export const expandArchives = async (files: File[]): Promise<File[]> => {
+  const result: File[] = [];
+  for (const file of files) {
+    if (!isArchiveFile(file)) {
+      result.push(file);
+      continue;
+    }
+    const entries = await readZip(
+      await file.arrayBuffer(),
+      path => !isHiddenPath(path) && getExtension(path) in IMAGE_TYPES
+    );
+    for (const entry of entries) {
+      const name = entry.path.slice(entry.path.lastIndexOf('/') + 1);
+      result.push(new File([entry.data], name, { type: IMAGE_TYPES[getExtension(name)], lastModified: entry.lastModified }));
+    }
+  }
+  return result;
+};
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// "frame_2.png" before "frame_10.png"
+export const naturalCompare = (a: string, b: string) => naturalCollator.compare(a, b);
+
+// Last run of digits in the name without extension, e.g. 12 for "walk 12 final.png"
+const getNumericSuffix = (name: string): number | null => {
+  const match = name.replace(/\.[^.]+$/, '').match(/(\d+)(?!.*\d)/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+const compareSuffix = (a: File, b: File) => {
+  const na = getNumericSuffix(a.name);
+  const nb = getNumericSuffix(b.name);
+  // Names without a number go last
+  if (na === null || nb === null) return na === nb ? 0 : na === null ? 1 : -1;
+  return na - nb;
+};
+
+/**
+ * Orders files by natural file name, by modification time or by the number
+ * at the end of the name (ignoring differing prefixes). Ties fall back to
+ * the natural name order.
+ */
+export const sortImportFiles = (files: File[], order: ImportSortOrder): File[] => {
+  const byName = (a: File, b: File) => naturalCompare(a.name, b.name);
+  const compare =
+    order === 'modified' ? (a: File, b: File) => a.lastModified - b.lastModified || byName(a, b)
+    : order === 'suffix' ? (a: File, b: File) => compareSuffix(a, b) || byName(a, b)
+    : byName;
+  return [...files].sort(compare);
+};
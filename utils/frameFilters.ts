@@ -0,0 +1,148 @@
+import { AppMode, FrameData, FrameFilter, FrameFilterType } from '../types';
+import { hexToRgb } from './color';
+import { createFrameId } from './frameOperations';
+
+// Non-destructive per-frame filters. They run on each frame's own pixels
+// before it is composited over the background, in the player as well as
+// in every exporter, so keyed-out pixels show the background or stay
+// transparent.
+
+export const FRAME_FILTER_LABELS: Record<FrameFilterType, string> = {
+  chromaKey: '抠图 (色键)',
+  adjust: '色彩调整',
+  replaceColor: '颜色替换',
+};
+
+export const createFrameFilter = (type: FrameFilterType): FrameFilter => {
+  const base = { id: createFrameId(), enabled: true, frameKeys: null };
+  switch (type) {
+    case 'chromaKey':
+      return { ...base, type, color: '#00ff00', tolerance: 30, softness: 10 };
+    case 'adjust':
+      return { ...base, type, brightness: 0, contrast: 0, saturation: 0, hue: 0 };
+    case 'replaceColor':
+      return { ...base, type, from: '#ffffff', to: '#000000', tolerance: 10 };
+  }
+};
+
+// Frame ids in multi-image mode, `#index` for the cells of a sprite sheet
+export const getFilterFrameKey = (mode: AppMode, frames: FrameData[], index: number): string =>
+  mode === AppMode.MULTI_IMAGE ? frames[index]?.id ?? '' : `#${index}`;
+
+// Enabled filters that apply to the frame with `key`, in stack order
+export const getActiveFilters = (filters: FrameFilter[], key: string): FrameFilter[] =>
+  filters.filter(filter => filter.enabled && (filter.frameKeys === null || filter.frameKeys.includes(key)));
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+// Chroma distance ignores most of the luma difference, so shading on the
+// backdrop keys out along with it
+const LUMA_WEIGHT = 0.5;
+
+const toYCbCr = (r: number, g: number, b: number): [number, number, number] => [
+  0.299 * r + 0.587 * g + 0.114 * b,
+  -0.168736 * r - 0.331264 * g + 0.5 * b,
+  0.5 * r - 0.418688 * g - 0.081312 * b,
+];
+
+const applyChromaKey = (pixels: Uint8ClampedArray, color: string, tolerance: number, softness: number) => {
+  const key = hexToRgb(color);
+  const [ky, kcb, kcr] = toYCbCr(...key);
+  const low = tolerance / 100;
+  const high = low + softness / 100;
+  for (let p = 0; p < pixels.length; p += 4) {
+    if (pixels[p + 3] === 0) continue;
+    const [y, cb, cr] = toYCbCr(pixels[p], pixels[p + 1], pixels[p + 2]);
+    const dy = (y - ky) * LUMA_WEIGHT;
+    const distance = Math.sqrt(dy * dy + (cb - kcb) ** 2 + (cr - kcr) ** 2) / 255;
+    if (distance >= high) continue;
+    const coverage = distance <= low ? 0 : (distance - low) / (high - low);
+    if (coverage > 0) {
+      // Take the key color's share out of edge pixels so no fringe remains
+      for (let c = 0; c < 3; c++) {
+        pixels[p + c] = clampByte((pixels[p + c] - key[c] * (1 - coverage)) / coverage);
+      }
+    }
+    pixels[p + 3] = Math.round(pixels[p + 3] * coverage);
+  }
+};
+
+// Hue rotation and saturation as one color matrix, like the CSS filter functions
+const getColorMatrix = (hue: number, saturation: number): number[] => {
+  const angle = (hue * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const h = [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+  const s = 1 + saturation / 100;
+  const sat = [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+  const m: number[] = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      m.push(sat[row * 3] * h[col] + sat[row * 3 + 1] * h[3 + col] + sat[row * 3 + 2] * h[6 + col]);
+    }
+  }
+  return m;
+};
+
+const applyColorAdjust = (pixels: Uint8ClampedArray, brightness: number, contrast: number, saturation: number, hue: number) => {
+  const m = getColorMatrix(hue, saturation);
+  const offset = brightness * 2.55;
+  const c = contrast * 2.55;
+  const factor = (259 * (c + 255)) / (255 * (259 - c));
+  for (let p = 0; p < pixels.length; p += 4) {
+    if (pixels[p + 3] === 0) continue;
+    const r = pixels[p];
+    const g = pixels[p + 1];
+    const b = pixels[p + 2];
+    for (let ch = 0; ch < 3; ch++) {
+      const value = m[ch * 3] * r + m[ch * 3 + 1] * g + m[ch * 3 + 2] * b + offset;
+      pixels[p + ch] = clampByte((value - 128) * factor + 128);
+    }
+  }
+};
+
+// Shifts matching pixels by the difference of the two colors, which keeps their shading
+const applyReplaceColor = (pixels: Uint8ClampedArray, from: string, to: string, tolerance: number) => {
+  const source = hexToRgb(from);
+  const target = hexToRgb(to);
+  const limit = (tolerance / 100) * Math.sqrt(3) * 255;
+  for (let p = 0; p < pixels.length; p += 4) {
+    if (pixels[p + 3] === 0) continue;
+    const dr = pixels[p] - source[0];
+    const dg = pixels[p + 1] - source[1];
+    const db = pixels[p + 2] - source[2];
+    if (Math.sqrt(dr * dr + dg * dg + db * db) > limit) continue;
+    pixels[p] = clampByte(target[0] + dr);
+    pixels[p + 1] = clampByte(target[1] + dg);
+    pixels[p + 2] = clampByte(target[2] + db);
+  }
+};
+
+/**
+ * Runs `filters` over straight RGBA pixels in place, in order. Callers pick
+ * the filters of a frame with getActiveFilters.
+ */
+export const applyFrameFilters = (pixels: Uint8ClampedArray, filters: FrameFilter[]): Uint8ClampedArray => {
+  for (const filter of filters) {
+    switch (filter.type) {
+      case 'chromaKey':
+        applyChromaKey(pixels, filter.color, filter.tolerance, filter.softness);
+        break;
+      case 'adjust':
+        applyColorAdjust(pixels, filter.brightness, filter.contrast, filter.saturation, filter.hue);
+        break;
+      case 'replaceColor':
+        applyReplaceColor(pixels, filter.from, filter.to, filter.tolerance);
+        break;
+    }
+  }
+  return pixels;
+};
@@ -0,0 +1,158 @@
+import { AppMode, FrameAnchor, FrameData, FrameLayoutConfig, FrameOffset, Rect, SpriteSheetConfig } from '../types';
+import { getSpriteFrameCount, getSpriteFramePlacement } from './spriteSlicing';
+
+// One layout model for the player, the animation exporters and the sprite
+// sheet export: a canvas size policy, an anchor and per-frame offsets.
+
+export interface LayoutSource {
+  width: number; // Logical frame size
+  height: number;
+  content?: Rect | null; // Non-transparent bounds inside the frame, used by 'trim'; null when empty
+  offset?: FrameOffset;
+}
+
+export interface LayoutPlacement {
+  x: number; // Canvas position of the frame's top-left corner
+  y: number;
+  clip: Rect; // Canvas region the frame is drawn into
+}
+
+export interface FrameLayout {
+  width: number;
+  height: number;
+  placements: LayoutPlacement[];
+}
+
+export const FRAME_ANCHORS: FrameAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+export const ANCHOR_FACTORS: Record<FrameAnchor, [number, number]> = {
+  'top-left': [0, 0],
+  'top': [0.5, 0],
+  'top-right': [1, 0],
+  'left': [0, 0.5],
+  'center': [0.5, 0.5],
+  'right': [1, 0.5],
+  'bottom-left': [0, 1],
+  'bottom': [0.5, 1],
+  'bottom-right': [1, 1],
+};
+
+export const createFrameLayoutConfig = (): FrameLayoutConfig => ({
+  sizePolicy: 'max',
+  customWidth: 0,
+  customHeight: 0,
+  anchor: 'center',
+});
+
+// The part of a frame that takes part in the layout
+const getLayoutRegion = (source: LayoutSource, trim: boolean): Rect => {
+  if (trim && source.content !== undefined) {
+    return source.content ?? { x: 0, y: 0, w: 0, h: 0 };
+  }
+  return { x: 0, y: 0, w: source.width, h: source.height };
+};
+
+/**
+ * Sizes the canvas by the configured policy and anchors every frame in it.
+ * With 'trim' only each frame's non-transparent content is laid out, so the
+ * canvas shrinks to the largest content and empty margins disappear.
+ */
+export const computeFrameLayout = (sources: LayoutSource[], config: FrameLayoutConfig): FrameLayout => {
+  const trim = config.sizePolicy === 'trim';
+  const regions = sources.map(source => getLayoutRegion(source, trim));
+
+  let width = 0;
+  let height = 0;
+  if (config.sizePolicy === 'first') {
+    width = regions[0]?.w ?? 0;
+    height = regions[0]?.h ?? 0;
+  } else if (config.sizePolicy === 'custom' && config.customWidth > 0 && config.customHeight > 0) {
+    width = config.customWidth;
+    height = config.customHeight;
+  } else {
+    for (const region of regions) {
+      width = Math.max(width, region.w);
+      height = Math.max(height, region.h);
+    }
+  }
+  width = Math.max(1, Math.round(width));
+  height = Math.max(1, Math.round(height));
+
+  const [fx, fy] = ANCHOR_FACTORS[config.anchor];
+  const placements = sources.map((source, i) => {
+    const region = regions[i];
+    const dx = Math.floor((width - region.w) * fx) + (source.offset?.x ?? 0);
+    const dy = Math.floor((height - region.h) * fy) + (source.offset?.y ?? 0);
+    return {
+      x: dx - region.x,
+      y: dy - region.y,
+      clip: { x: dx, y: dy, w: region.w, h: region.h },
+    };
+  });
+
+  return { width, height, placements };
+};
+
+export const getFrameOffset = (
+  mode: AppMode,
+  frames: FrameData[],
+  spriteConfig: SpriteSheetConfig,
+  index: number
+): FrameOffset | undefined => {
+  return mode === AppMode.MULTI_IMAGE
+    ? frames[index]?.offset
+    : spriteConfig.frameOffsets?.[index];
+};
+
+/**
+ * Logical frames of the current mode as layout input. `content` holds
+ * measured content bounds per frame and is only needed for 'trim'.
+ */
+export const getLayoutSources = (
+  mode: AppMode,
+  frames: FrameData[],
+  spriteConfig: SpriteSheetConfig,
+  content: (Rect | null)[] | null = null
+): LayoutSource[] => {
+  const sources: LayoutSource[] = [];
+  if (mode === AppMode.MULTI_IMAGE) {
+    frames.forEach((frame, i) => {
+      sources.push({ width: frame.width, height: frame.height, content: content?.[i], offset: frame.offset });
+    });
+  } else if (spriteConfig.originalImage) {
+    const count = getSpriteFrameCount(spriteConfig);
+    for (let i = 0; i < count; i++) {
+      const placement = getSpriteFramePlacement(spriteConfig, i);
+      sources.push({
+        width: placement?.width ?? 0,
+        height: placement?.height ?? 0,
+        content: content?.[i],
+        offset: spriteConfig.frameOffsets?.[i],
+      });
+    }
+  }
+  return sources;
+};
+
+// Bounding box of pixels with non-zero alpha, null for a fully clear image
+export const getOpaqueBounds = (pixels: Uint8ClampedArray, width: number, height: number): Rect | null => {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
@@ -0,0 +1,44 @@
+import { FrameData } from '../types';
+
+// Timeline edits on the MULTI_IMAGE frame list. All of them return a new
+// array and leave frames they do not touch (and their ids) as they were.
+
+export const createFrameId = () => Math.random().toString(36).substr(2, 9);
+
+// Same image and settings under a new id
+export const copyFrame = (frame: FrameData): FrameData => ({ ...frame, id: createFrameId() });
+
+/**
+ * Moves the frames in `ids` to the insertion point `target` (an index into
+ * the original list, 0..length), keeping their relative order.
+ */
+export const moveFrames = (frames: FrameData[], ids: Set<string>, target: number): FrameData[] => {
+  const moving = frames.filter(f => ids.has(f.id));
+  const before = frames.slice(0, target).filter(f => !ids.has(f.id));
+  const after = frames.slice(target).filter(f => !ids.has(f.id));
+  return [...before, ...moving, ...after];
+};
+
+// Inserts copies of the frames in `ids` at the insertion point `target`
+export const insertFrameCopies = (frames: FrameData[], ids: Set<string>, target: number): FrameData[] => {
+  const copies = frames.filter(f => ids.has(f.id)).map(copyFrame);
+  return [...frames.slice(0, target), ...copies, ...frames.slice(target)];
+};
+
+// Each frame in `ids` is followed by its own copy
+export const duplicateFrames = (frames: FrameData[], ids: Set<string>): FrameData[] =>
+  frames.flatMap(f => (ids.has(f.id) ? [f, copyFrame(f)] : [f]));
+
+// Reverses the order of the frames in `ids` within the positions they occupy
+export const reverseFrames = (frames: FrameData[], ids: Set<string>): FrameData[] => {
+  const reversed = frames.filter(f => ids.has(f.id)).reverse();
+  let next = 0;
+  return frames.map(f => (ids.has(f.id) ? reversed[next++] : f));
+};
+
+export const removeFrames = (frames: FrameData[], ids: Set<string>): FrameData[] =>
+  frames.filter(f => !ids.has(f.id));
+
+// Swaps in a new image but keeps the frame's id, duration and offset
+export const replaceFrameImage = (frames: FrameData[], id: string, image: FrameData): FrameData[] =>
+  frames.map(f => (f.id === id ? { ...f, url: image.url, file: image.file, width: image.width, height: image.height } : f));
@@ -0,0 +1,382 @@
+import {
+  AppMode,
+  ExportOptions,
+  FrameData,
+  FrameFilter,
+  FrameLayoutConfig,
+  Overlay,
+  PlaybackConfig,
+  Rect,
+  ResamplingMode,
+  SpriteSheetConfig,
+} from '../types';
+import { hexToRgb } from './color';
+import { getOutputGeometry, isIdentityGeometry } from './exportGeometry';
+import { applyFrameFilters, getActiveFilters, getFilterFrameKey } from './frameFilters';
+import { computeFrameLayout, getLayoutSources, getOpaqueBounds, LayoutPlacement } from './frameLayout';
+import { getOverlayPosition, isOverlayVisible } from './overlays';
+import { getPlaybackSequence } from './playback';
+import { getSpriteFrameDuration, getSpriteFramePlacement } from './spriteSlicing';
+
+// DOM-free export core: composes the frames of an animation from decoded
+// source pixels. The web exporters and the command-line builder both render
+// through here, so the same settings give the same bytes everywhere.
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // Straight RGBA, width * height * 4
+}
+
+export interface RenderedFrame {
+  pixels: Uint8ClampedArray; // RGBA, width * height * 4
+  delay: number; // ms
+}
+
+export interface RenderedAnimation {
+  width: number;
+  height: number;
+  frames: RenderedFrame[];
+}
+
+export interface OverlayLayer {
+  overlay: Overlay;
+  image: RgbaImage; // Final size, opacity applied
+}
+
+/**
+ * Display time of a frame in ms: the frame's own override when set,
+ * otherwise the global FPS default.
+ */
+export const getFrameDuration = (
+  mode: AppMode,
+  frames: FrameData[],
+  spriteConfig: SpriteSheetConfig,
+  index: number,
+  fps: number
+): number => {
+  const override = mode === AppMode.MULTI_IMAGE
+    ? frames[index]?.duration
+    : spriteConfig.frameDurations?.[index] ?? getSpriteFrameDuration(spriteConfig, index);
+  return override && override > 0 ? override : 1000 / fps;
+};
+
+export const createRgbaImage = (width: number, height: number): RgbaImage => ({
+  width,
+  height,
+  pixels: new Uint8ClampedArray(width * height * 4),
+});
+
+// Source-over of one straight-alpha pixel
+const blendPixel = (dst: Uint8ClampedArray, d: number, src: Uint8ClampedArray, s: number) => {
+  const sa = src[s + 3];
+  if (sa === 0) return;
+  const da = dst[d + 3];
+  if (sa === 255 || da === 0) {
+    dst[d] = src[s];
+    dst[d + 1] = src[s + 1];
+    dst[d + 2] = src[s + 2];
+    dst[d + 3] = sa;
+    return;
+  }
+  const keep = (da * (255 - sa)) / 255;
+  const outA = sa + keep;
+  dst[d] = Math.round((src[s] * sa + dst[d] * keep) / outA);
+  dst[d + 1] = Math.round((src[s + 1] * sa + dst[d + 1] * keep) / outA);
+  dst[d + 2] = Math.round((src[s + 2] * sa + dst[d + 2] * keep) / outA);
+  dst[d + 3] = Math.round(outA);
+};
+
+/**
+ * Draws logical frame `index` at its layout placement, clipped to its
+ * layout region, like drawLayoutFrame does on a canvas. `image` is the
+ * frame's own image, or the sheet in sprite mode.
+ */
+export const drawFrame = (
+  target: RgbaImage,
+  mode: AppMode,
+  image: RgbaImage,
+  spriteConfig: SpriteSheetConfig,
+  index: number,
+  placement: LayoutPlacement
+) => {
+  const { clip } = placement;
+  const left = Math.max(0, clip.x);
+  const top = Math.max(0, clip.y);
+  const right = Math.min(target.width, clip.x + clip.w);
+  const bottom = Math.min(target.height, clip.y + clip.h);
+  if (right <= left || bottom <= top) return;
+
+  // Maps a target pixel to a source pixel index, or -1 when nothing is drawn there
+  let sourceIndex: (x: number, y: number) => number;
+  if (mode === AppMode.MULTI_IMAGE) {
+    sourceIndex = (x, y) => {
+      const sx = x - placement.x;
+      const sy = y - placement.y;
+      if (sx < 0 || sy < 0 || sx >= image.width || sy >= image.height) return -1;
+      return (sy * image.width + sx) * 4;
+    };
+  } else {
+    const sprite = getSpriteFramePlacement(spriteConfig, index);
+    if (!sprite) return;
+    const { source, rotated } = sprite;
+    const originX = placement.x + sprite.x;
+    const originY = placement.y + sprite.y;
+    sourceIndex = (x, y) => {
+      const dx = x - originX;
+      const dy = y - originY;
+      if (dx < 0 || dy < 0 || dx >= source.w || dy >= source.h) return -1;
+      // Rotated sprites are stored turned 90° clockwise in an h x w region
+      const sx = rotated ? source.x + source.h - 1 - dy : source.x + dx;
+      const sy = rotated ? source.y + dx : source.y + dy;
+      if (sx < 0 || sy < 0 || sx >= image.width || sy >= image.height) return -1;
+      return (sy * image.width + sx) * 4;
+    };
+  }
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const s = sourceIndex(x, y);
+      if (s >= 0) blendPixel(target.pixels, (y * target.width + x) * 4, image.pixels, s);
+    }
+  }
+};
+
+// Non-transparent bounds of every logical frame after its filters, for the 'trim' size policy
+export const measureContentBounds = (
+  mode: AppMode,
+  frames: FrameData[],
+  spriteConfig: SpriteSheetConfig,
+  images: RgbaImage[],
+  filters: FrameFilter[] = []
+): (Rect | null)[] => {
+  return getLayoutSources(mode, frames, spriteConfig).map((source, i) => {
+    const image = mode === AppMode.MULTI_IMAGE ? images[i] : images[0];
+    if (!image || source.width === 0 || source.height === 0) return null;
+    const frame = createRgbaImage(source.width, source.height);
+    const clip = { x: 0, y: 0, w: source.width, h: source.height };
+    drawFrame(frame, mode, image, spriteConfig, i, { x: 0, y: 0, clip });
+    applyFrameFilters(frame.pixels, getActiveFilters(filters, getFilterFrameKey(mode, frames, i)));
+    return getOpaqueBounds(frame.pixels, source.width, source.height);
+  });
+};
+
+interface FilterTap {
+  index: number;
+  weight: number;
+}
+
+// Tent filter taps per output pixel along one axis, widened when shrinking
+const getFilterTaps = (start: number, length: number, size: number): FilterTap[][] => {
+  const scale = size / length;
+  const support = scale < 1 ? 1 / scale : 1;
+  const taps: FilterTap[][] = [];
+  for (let i = 0; i < size; i++) {
+    const center = (i + 0.5) / scale - 0.5;
+    const row: FilterTap[] = [];
+    let total = 0;
+    for (let s = Math.floor(center - support) + 1; s <= Math.ceil(center + support) - 1; s++) {
+      const weight = 1 - Math.abs(s - center) / support;
+      if (weight <= 0) continue;
+      row.push({ index: start + Math.max(0, Math.min(length - 1, s)), weight });
+      total += weight;
+    }
+    if (row.length === 0) row.push({ index: start + Math.max(0, Math.min(length - 1, Math.round(center))), weight: 1 });
+    else row.forEach(tap => { tap.weight /= total; });
+    taps.push(row);
+  }
+  return taps;
+};
+
+/**
+ * Cuts `source` out of `image` and scales it to `width x height`: nearest
+ * neighbour keeps hard pixels, 'smooth' filters in premultiplied alpha so
+ * transparent edges do not darken.
+ */
+export const resampleImage = (
+  image: RgbaImage,
+  source: Rect,
+  width: number,
+  height: number,
+  resampling: ResamplingMode
+): RgbaImage => {
+  const output = createRgbaImage(width, height);
+  const src = image.pixels;
+  const dst = output.pixels;
+
+  if (resampling === 'nearest') {
+    for (let y = 0; y < height; y++) {
+      const sy = source.y + Math.min(source.h - 1, Math.floor(((y + 0.5) * source.h) / height));
+      for (let x = 0; x < width; x++) {
+        const sx = source.x + Math.min(source.w - 1, Math.floor(((x + 0.5) * source.w) / width));
+        dst.set(src.subarray((sy * image.width + sx) * 4, (sy * image.width + sx) * 4 + 4), (y * width + x) * 4);
+      }
+    }
+    return output;
+  }
+
+  // Horizontal pass into premultiplied floats, then vertical pass
+  const xTaps = getFilterTaps(source.x, source.w, width);
+  const yTaps = getFilterTaps(source.y, source.h, height);
+  const rows = new Float32Array(width * source.h * 4);
+  for (let y = 0; y < source.h; y++) {
+    const rowStart = (source.y + y) * image.width;
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (const { index, weight } of xTaps[x]) {
+        const s = (rowStart + index) * 4;
+        const w = (weight * src[s + 3]) / 255;
+        r += src[s] * w;
+        g += src[s + 1] * w;
+        b += src[s + 2] * w;
+        a += src[s + 3] * weight;
+      }
+      const o = (y * width + x) * 4;
+      rows[o] = r;
+      rows[o + 1] = g;
+      rows[o + 2] = b;
+      rows[o + 3] = a;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (const { index, weight } of yTaps[y]) {
+        const s = ((index - source.y) * width + x) * 4;
+        r += rows[s] * weight;
+        g += rows[s + 1] * weight;
+        b += rows[s + 2] * weight;
+        a += rows[s + 3] * weight;
+      }
+      const o = (y * width + x) * 4;
+      if (a <= 0) continue;
+      const unpremultiply = 255 / a;
+      dst[o] = Math.round(r * unpremultiply);
+      dst[o + 1] = Math.round(g * unpremultiply);
+      dst[o + 2] = Math.round(b * unpremultiply);
+      dst[o + 3] = Math.round(a);
+    }
+  }
+  return output;
+};
+
+/**
+ * Turns the rasterized pixels of an overlay (its text, or the watermark at
+ * its natural size) into the layer drawn over the frames.
+ */
+export const createOverlayLayer = (overlay: Overlay, source: RgbaImage): OverlayLayer => {
+  const scale = overlay.type === 'image' ? overlay.scale : 1;
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const image = width === source.width && height === source.height
+    ? { width, height, pixels: source.pixels.slice() }
+    : resampleImage(source, { x: 0, y: 0, w: source.width, h: source.height }, width, height, 'smooth');
+  if (overlay.opacity < 1) {
+    for (let p = 3; p < image.pixels.length; p += 4) image.pixels[p] = Math.round(image.pixels[p] * overlay.opacity);
+  }
+  return { overlay, image };
+};
+
+// Draws the layers shown on frame `index`, anchored inside `area`
+export const drawOverlays = (target: RgbaImage, layers: OverlayLayer[], index: number, area: Rect) => {
+  for (const { overlay, image } of layers) {
+    if (!isOverlayVisible(overlay, index)) continue;
+    const { x, y } = getOverlayPosition(overlay, image.width, image.height, area);
+    const left = Math.max(0, x);
+    const top = Math.max(0, y);
+    const right = Math.min(target.width, x + image.width);
+    const bottom = Math.min(target.height, y + image.height);
+    for (let ty = top; ty < bottom; ty++) {
+      for (let tx = left; tx < right; tx++) {
+        blendPixel(target.pixels, (ty * target.width + tx) * 4, image.pixels, ((ty - y) * image.width + tx - x) * 4);
+      }
+    }
+  }
+};
+
+/**
+ * Shared frame pipeline for every exporter: sizes the canvas with the frame
+ * layout, draws each frame with its filters over the background (or onto a
+ * clear canvas when exporting with transparency), puts the overlays on top
+ * and applies the export crop and resize. Overlays are anchored to the
+ * cropped area, so a cropped export keeps its watermark.
+ * `images` holds one decoded image per frame, or the sheet in sprite mode.
+ * `onProgress` is called after each distinct frame.
+ */
+export const renderAnimation = (
+  mode: AppMode,
+  frames: FrameData[],
+  spriteConfig: SpriteSheetConfig,
+  layoutConfig: FrameLayoutConfig,
+  playback: PlaybackConfig,
+  fps: number,
+  backgroundColor: string,
+  options: ExportOptions,
+  filters: FrameFilter[],
+  overlays: OverlayLayer[],
+  images: RgbaImage[],
+  onProgress?: (progress: number) => void
+): RenderedAnimation => {
+  if (images.length === 0) throw new Error("No images to process");
+
+  const content = layoutConfig.sizePolicy === 'trim'
+    ? measureContentBounds(mode, frames, spriteConfig, images, filters)
+    : null;
+  const layout = computeFrameLayout(getLayoutSources(mode, frames, spriteConfig, content), layoutConfig);
+  const { width, height } = layout;
+
+  const geometry = getOutputGeometry(width, height, options);
+  const resized = !isIdentityGeometry(geometry, width, height);
+  const [r, g, b] = hexToRgb(backgroundColor);
+
+  // Draw each frame of the playback range once, then put them in play order
+  const sequence = getPlaybackSequence(layout.placements.length, playback);
+  const rendered = new Map<number, RenderedFrame>();
+  const distinctFrames = new Set(sequence).size;
+  for (const i of sequence) {
+    if (rendered.has(i)) continue;
+    const canvas = createRgbaImage(width, height);
+    if (!options.transparent) {
+      for (let p = 0; p < canvas.pixels.length; p += 4) {
+        canvas.pixels[p] = r;
+        canvas.pixels[p + 1] = g;
+        canvas.pixels[p + 2] = b;
+        canvas.pixels[p + 3] = 255;
+      }
+    }
+
+    const image = mode === AppMode.MULTI_IMAGE ? images[i] : images[0];
+    const frameFilters = getActiveFilters(filters, getFilterFrameKey(mode, frames, i));
+    if (frameFilters.length === 0) {
+      drawFrame(canvas, mode, image, spriteConfig, i, layout.placements[i]);
+    } else {
+      // Filters see the frame alone, before it meets the background
+      const layer = createRgbaImage(width, height);
+      drawFrame(layer, mode, image, spriteConfig, i, layout.placements[i]);
+      applyFrameFilters(layer.pixels, frameFilters);
+      for (let p = 0; p < layer.pixels.length; p += 4) blendPixel(canvas.pixels, p, layer.pixels, p);
+    }
+    drawOverlays(canvas, overlays, i, geometry.source);
+
+    const output = resized
+      ? resampleImage(canvas, geometry.source, geometry.width, geometry.height, options.resampling)
+      : canvas;
+    rendered.set(i, {
+      pixels: output.pixels,
+      delay: getFrameDuration(mode, frames, spriteConfig, i, fps),
+    });
+    onProgress?.(rendered.size / distinctFrames);
+  }
+
+  return {
+    width: resized ? geometry.width : width,
+    height: resized ? geometry.height : height,
+    frames: sequence.map(i => rendered.get(i)!),
+  };
+};
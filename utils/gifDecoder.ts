@@ -0,0 +1,309 @@
+// GIF87a/89a decoder that expands an animation into fully composited RGBA
+// frames, honouring transparency, interlacing and each frame's disposal
+// method. Pure TypeScript so it can be shared with workers.
+
+export interface DecodedGifFrame {
+  pixels: Uint8ClampedArray; // Full-canvas RGBA after compositing
+  delay: number; // ms
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  loop: number; // 0 = forever
+  frames: DecodedGifFrame[];
+}
+
+enum Disposal {
+  NONE = 0,
+  KEEP = 1,
+  RESTORE_BACKGROUND = 2,
+  RESTORE_PREVIOUS = 3
+}
+
+// Browsers play 0-10ms delays at 100ms; match that so imported timing looks the same
+const MIN_DELAY_MS = 20;
+const DEFAULT_DELAY_MS = 100;
+
+class ByteReader {
+  pos = 0;
+  constructor(private data: Uint8Array) {}
+
+  get remaining(): number {
+    return this.data.length - this.pos;
+  }
+
+  readByte(): number {
+    if (this.pos >= this.data.length) throw new Error('Unexpected end of GIF data');
+    return this.data[this.pos++];
+  }
+
+  readShort(): number {
+    return this.readByte() | (this.readByte() << 8);
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.pos + length > this.data.length) throw new Error('Unexpected end of GIF data');
+    const bytes = this.data.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  readString(length: number): string {
+    return String.fromCharCode(...this.readBytes(length));
+  }
+
+  readSubBlocks(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    let size = this.readByte();
+    while (size > 0) {
+      const chunk = this.readBytes(size);
+      chunks.push(chunk);
+      total += size;
+      size = this.readByte();
+    }
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+
+  skipSubBlocks() {
+    let size = this.readByte();
+    while (size > 0) {
+      this.readBytes(size);
+      size = this.readByte();
+    }
+  }
+}
+
+/**
+ * Decodes GIF LZW data into `pixelCount` color indices. Corrupt or short
+ * streams leave the remaining pixels at index 0 rather than throwing.
+ */
+export const lzwDecode = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+  const output = new Uint8Array(pixelCount);
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let nextCode = endCode + 1;
+  let oldCode = -1;
+  let first = 0;
+
+  for (let i = 0; i < clearCode; i++) suffix[i] = i;
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let dataPos = 0;
+  let outPos = 0;
+
+  while (outPos < pixelCount) {
+    while (bitCount < codeSize) {
+      if (dataPos >= data.length) return output;
+      bitBuffer |= data[dataPos++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bitBuffer & codeMask;
+    bitBuffer >>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      nextCode = endCode + 1;
+      oldCode = -1;
+      continue;
+    }
+    if (code === endCode) break;
+
+    if (oldCode === -1) {
+      if (code >= clearCode) break;
+      output[outPos++] = code;
+      oldCode = code;
+      first = code;
+      continue;
+    }
+
+    let current = code;
+    let top = 0;
+    if (code >= nextCode) {
+      // KwKwK case: the code being defined right now
+      if (code > nextCode) break;
+      stack[top++] = first;
+      current = oldCode;
+    }
+    while (current >= clearCode) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    first = suffix[current];
+    stack[top++] = first;
+
+    while (top > 0 && outPos < pixelCount) output[outPos++] = stack[--top];
+
+    if (nextCode < 4096) {
+      prefix[nextCode] = oldCode;
+      suffix[nextCode] = first;
+      nextCode++;
+      if (nextCode === (1 << codeSize) && codeSize < 12) {
+        codeSize++;
+        codeMask = (1 << codeSize) - 1;
+      }
+    }
+    oldCode = code;
+  }
+
+  return output;
+};
+
+const deinterlace = (indices: Uint8Array, width: number, height: number): Uint8Array => {
+  const out = new Uint8Array(indices.length);
+  const passes = [
+    { start: 0, step: 8 },
+    { start: 4, step: 8 },
+    { start: 2, step: 4 },
+    { start: 1, step: 2 }
+  ];
+  let row = 0;
+  for (const { start, step } of passes) {
+    for (let y = start; y < height; y += step) {
+      out.set(indices.subarray(row * width, (row + 1) * width), y * width);
+      row++;
+    }
+  }
+  return out;
+};
+
+export const isGif = (data: Uint8Array): boolean =>
+  data.length >= 6 && String.fromCharCode(...data.subarray(0, 6)).startsWith('GIF8');
+
+export const decodeGif = (data: Uint8Array): DecodedGif => {
+  const reader = new ByteReader(data);
+  const signature = reader.readString(6);
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error('Not a GIF file');
+  }
+
+  const width = reader.readShort();
+  const height = reader.readShort();
+  const screenFlags = reader.readByte();
+  reader.readByte(); // Background color index, ignored - cleared areas become transparent
+  reader.readByte(); // Pixel aspect ratio
+
+  let globalPalette: Uint8Array | null = null;
+  if (screenFlags & 0x80) {
+    globalPalette = reader.readBytes(3 * (1 << ((screenFlags & 0x07) + 1)));
+  }
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: DecodedGifFrame[] = [];
+  let loop = 0;
+
+  // Pending Graphics Control Extension state for the next image
+  let disposal = Disposal.NONE;
+  let delay = 0;
+  let transparentIndex = -1;
+
+  try {
+    while (reader.remaining > 0) {
+      const blockType = reader.readByte();
+
+      if (blockType === 0x3b) break; // Trailer
+
+      if (blockType === 0x21) {
+        const label = reader.readByte();
+        if (label === 0xf9) {
+          const block = reader.readSubBlocks();
+          if (block.length >= 4) {
+            disposal = (block[0] >> 2) & 0x07;
+            transparentIndex = block[0] & 0x01 ? block[3] : -1;
+            delay = (block[1] | (block[2] << 8)) * 10;
+          }
+        } else if (label === 0xff) {
+          const block = reader.readSubBlocks();
+          const identifier = String.fromCharCode(...block.subarray(0, 11));
+          if ((identifier === 'NETSCAPE2.0' || identifier === 'ANIMEXTS1.0') && block.length >= 14 && block[11] === 1) {
+            loop = block[12] | (block[13] << 8);
+          }
+        } else {
+          reader.skipSubBlocks();
+        }
+        continue;
+      }
+
+      if (blockType !== 0x2c) {
+        throw new Error(`Unknown GIF block 0x${blockType.toString(16)}`);
+      }
+
+      const left = reader.readShort();
+      const top = reader.readShort();
+      const frameWidth = reader.readShort();
+      const frameHeight = reader.readShort();
+      const imageFlags = reader.readByte();
+
+      let palette = globalPalette;
+      if (imageFlags & 0x80) {
+        palette = reader.readBytes(3 * (1 << ((imageFlags & 0x07) + 1)));
+      }
+
+      const minCodeSize = reader.readByte();
+      const lzwData = reader.readSubBlocks();
+      let indices = lzwDecode(lzwData, minCodeSize, frameWidth * frameHeight);
+      if (imageFlags & 0x40) indices = deinterlace(indices, frameWidth, frameHeight);
+
+      const previous = disposal === Disposal.RESTORE_PREVIOUS ? canvas.slice() : null;
+
+      if (palette) {
+        for (let y = 0; y < frameHeight; y++) {
+          const cy = top + y;
+          if (cy >= height) break;
+          for (let x = 0; x < frameWidth; x++) {
+            const cx = left + x;
+            if (cx >= width) break;
+            const index = indices[y * frameWidth + x];
+            if (index === transparentIndex || index * 3 >= palette.length) continue;
+            const p = (cy * width + cx) * 4;
+            canvas[p] = palette[index * 3];
+            canvas[p + 1] = palette[index * 3 + 1];
+            canvas[p + 2] = palette[index * 3 + 2];
+            canvas[p + 3] = 255;
+          }
+        }
+      }
+
+      frames.push({
+        pixels: canvas.slice(),
+        delay: delay < MIN_DELAY_MS ? DEFAULT_DELAY_MS : delay
+      });
+
+      // Apply this frame's disposal before the next one is drawn
+      if (disposal === Disposal.RESTORE_BACKGROUND) {
+        for (let y = top; y < Math.min(top + frameHeight, height); y++) {
+          const start = (y * width + left) * 4;
+          const end = (y * width + Math.min(left + frameWidth, width)) * 4;
+          canvas.fill(0, start, end);
+        }
+      } else if (previous) {
+        canvas.set(previous);
+      }
+
+      disposal = Disposal.NONE;
+      delay = 0;
+      transparentIndex = -1;
+    }
+  } catch (error) {
+    // Truncated files are common; keep whatever frames decoded cleanly
+    if (frames.length === 0) throw error;
+  }
+
+  return { width, height, loop, frames };
+};
@@ -0,0 +1,682 @@
+// GIF89a encoder: palette quantization, LZW compression and the
+// Graphics Control / NETSCAPE2.0 extensions. Pure TypeScript with no DOM
+// dependencies so it can run inside a Web Worker.
+
+import { GifDitherMode, Rect } from '../types';
+import { Disposal, OptimizedFrame, optimizeFrames } from './gifOptimizer';
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  // Number of times to repeat the animation after the first play; 0 loops
+  // forever, -1 leaves out the NETSCAPE2.0 block so it plays once.
+  loop?: number;
+  // Upper bound for each color table (2-256).
+  maxColors?: number;
+  dither?: GifDitherMode;
+  // Opaque RGB palette written once as the global color table; every frame
+  // is mapped onto it instead of getting its own table.
+  palette?: Uint8Array | null;
+  // Keep alpha: pixels below `alphaThreshold` map to a reserved transparent index.
+  transparent?: boolean;
+  alphaThreshold?: number;
+  // Color that semi-transparent kept pixels are blended against, null keeps their RGB.
+  matte?: [number, number, number] | null;
+  // Encode only what changes between frames and merge repeated frames (see gifOptimizer).
+  optimize?: boolean;
+}
+
+export interface QuantizedImage {
+  palette: Uint8Array; // RGB triplets
+  indices: Uint8Array; // One palette index per pixel
+  transparentIndex: number; // -1 when the image has no transparent index
+}
+
+/**
+ * Binarizes alpha in place: pixels below `threshold` become fully transparent,
+ * the rest opaque, optionally blended against `matte` first. Shared by the
+ * encoder and the preview so both agree on which pixels drop out.
+ */
+export const applyAlphaThreshold = (
+  pixels: Uint8ClampedArray,
+  threshold: number,
+  matte: [number, number, number] | null = null
+): Uint8ClampedArray => {
+  for (let p = 0; p < pixels.length; p += 4) {
+    const alpha = pixels[p + 3];
+    if (alpha < threshold || alpha === 0) {
+      pixels[p] = pixels[p + 1] = pixels[p + 2] = pixels[p + 3] = 0;
+      continue;
+    }
+    if (matte && alpha < 255) {
+      const a = alpha / 255;
+      pixels[p] = pixels[p] * a + matte[0] * (1 - a);
+      pixels[p + 1] = pixels[p + 1] * a + matte[1] * (1 - a);
+      pixels[p + 2] = pixels[p + 2] * a + matte[2] * (1 - a);
+    }
+    pixels[p + 3] = 255;
+  }
+  return pixels;
+};
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  writeByte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeShort(value: number) {
+    this.writeByte(value);
+    this.writeByte(value >> 8);
+  }
+
+  writeBytes(bytes: ArrayLike<number>) {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  writeString(text: string) {
+    for (let i = 0; i < text.length; i++) this.writeByte(text.charCodeAt(i));
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Smallest power-of-two table size (as an exponent, min 1) that holds `count` colors
+const tableBits = (count: number): number => {
+  let bits = 1;
+  while ((1 << bits) < count) bits++;
+  return bits;
+};
+
+interface ColorBox {
+  colors: number[]; // Indexes into the histogram arrays
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+const boxFromColors = (colors: number[], hist: Int32Array[]): ColorBox => {
+  const min: [number, number, number] = [255, 255, 255];
+  const max: [number, number, number] = [0, 0, 0];
+  for (const c of colors) {
+    for (let ch = 0; ch < 3; ch++) {
+      const v = hist[ch][c];
+      if (v < min[ch]) min[ch] = v;
+      if (v > max[ch]) max[ch] = v;
+    }
+  }
+  return { colors, min, max };
+};
+
+// Collects distinct opaque colors across all sources, or null once there are more than `limit`
+const collectExactColors = (
+  sources: Uint8ClampedArray[],
+  limit: number,
+  transparent: boolean
+): number[] | null => {
+  const colors = new Set<number>();
+  for (const pixels of sources) {
+    for (let p = 0; p < pixels.length; p += 4) {
+      if (transparent && pixels[p + 3] === 0) continue;
+      colors.add((pixels[p] << 16) | (pixels[p + 1] << 8) | pixels[p + 2]);
+      if (colors.size > limit) return null;
+    }
+  }
+  return [...colors];
+};
+
+/**
+ * Builds an opaque palette of at most `maxColors` colors (one fewer when a
+ * transparent slot must be reserved) covering every source. Sources that
+ * already fit are kept exact; otherwise a weighted median cut runs over a
+ * 15-bit histogram of all of them. Zero-alpha pixels are ignored when
+ * `transparent` is set.
+ */
+export const buildPalette = (
+  sources: Uint8ClampedArray[],
+  maxColors: number = 256,
+  transparent: boolean = false
+): Uint8Array => {
+  const limit = Math.max(1, Math.min(256, maxColors) - (transparent ? 1 : 0));
+
+  // Fast path: few enough distinct colors for an exact palette
+  const exact = collectExactColors(sources, limit, transparent);
+  if (exact) {
+    const palette = new Uint8Array(exact.length * 3);
+    exact.forEach((key, i) => {
+      palette[i * 3] = (key >> 16) & 0xff;
+      palette[i * 3 + 1] = (key >> 8) & 0xff;
+      palette[i * 3 + 2] = key & 0xff;
+    });
+    return palette;
+  }
+
+  // Histogram over 5 bits per channel, keeping channel sums for averaging
+  const counts = new Int32Array(32768);
+  const sums = [new Float64Array(32768), new Float64Array(32768), new Float64Array(32768)];
+  for (const pixels of sources) {
+    for (let p = 0; p < pixels.length; p += 4) {
+      if (transparent && pixels[p + 3] === 0) continue;
+      const key = ((pixels[p] >> 3) << 10) | ((pixels[p + 1] >> 3) << 5) | (pixels[p + 2] >> 3);
+      counts[key]++;
+      sums[0][key] += pixels[p];
+      sums[1][key] += pixels[p + 1];
+      sums[2][key] += pixels[p + 2];
+    }
+  }
+
+  const occupied: number[] = [];
+  for (let key = 0; key < 32768; key++) if (counts[key] > 0) occupied.push(key);
+
+  // Representative color of each histogram bin
+  const hist = [new Int32Array(32768), new Int32Array(32768), new Int32Array(32768)];
+  for (const key of occupied) {
+    for (let ch = 0; ch < 3; ch++) hist[ch][key] = Math.round(sums[ch][key] / counts[key]);
+  }
+
+  const boxes: ColorBox[] = [boxFromColors(occupied, hist)];
+  while (boxes.length < limit) {
+    // Split the box with the widest channel range weighted by population
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      if (box.colors.length < 2) return;
+      let population = 0;
+      for (const c of box.colors) population += counts[c];
+      const range = Math.max(box.max[0] - box.min[0], box.max[1] - box.min[1], box.max[2] - box.min[2]);
+      const score = range * Math.sqrt(population);
+      if (score > bestScore) {
+        bestScore = score;
+        target = i;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const ranges = [0, 1, 2].map(ch => box.max[ch] - box.min[ch]);
+    const channel = ranges.indexOf(Math.max(...ranges));
+    const sorted = [...box.colors].sort((a, b) => hist[channel][a] - hist[channel][b]);
+
+    let total = 0;
+    for (const c of sorted) total += counts[c];
+    let acc = 0;
+    let split = 1;
+    for (let i = 0; i < sorted.length - 1; i++) {
+      acc += counts[sorted[i]];
+      if (acc >= total / 2) {
+        split = i + 1;
+        break;
+      }
+    }
+
+    boxes.splice(target, 1,
+      boxFromColors(sorted.slice(0, split), hist),
+      boxFromColors(sorted.slice(split), hist)
+    );
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, i) => {
+    let weight = 0;
+    const acc = [0, 0, 0];
+    for (const c of box.colors) {
+      weight += counts[c];
+      for (let ch = 0; ch < 3; ch++) acc[ch] += sums[ch][c];
+    }
+    for (let ch = 0; ch < 3; ch++) palette[i * 3 + ch] = Math.round(acc[ch] / weight);
+  });
+  return palette;
+};
+
+// 8x8 ordered dither thresholds (0-63)
+const BAYER_8 = [
+  0, 32, 8, 40, 2, 34, 10, 42,
+  48, 16, 56, 24, 50, 18, 58, 26,
+  12, 44, 4, 36, 14, 46, 6, 38,
+  60, 28, 52, 20, 62, 30, 54, 22,
+  3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25,
+  15, 47, 7, 39, 13, 45, 5, 37,
+  63, 31, 55, 23, 61, 29, 53, 21,
+];
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+const diffuse = (buffer: Float32Array, offset: number, r: number, g: number, b: number, weight: number) => {
+  buffer[offset] += r * weight;
+  buffer[offset + 1] += g * weight;
+  buffer[offset + 2] += b * weight;
+};
+
+/**
+ * Maps RGBA pixels onto an opaque palette. Zero-alpha pixels get
+ * `transparentIndex` when it is set. Floyd–Steinberg diffuses the rounding
+ * error to neighbouring pixels; Bayer adds an ordered threshold pattern
+ * scaled to the palette's color spacing but leaves colors that are already
+ * in the palette untouched, so flat pixel art stays clean.
+ */
+export const mapToPalette = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  palette: Uint8Array,
+  transparentIndex: number = -1,
+  dither: GifDitherMode = 'none'
+): Uint8Array => {
+  const pixelCount = pixels.length >> 2;
+  const indices = new Uint8Array(pixelCount);
+  const colorCount = palette.length / 3;
+  const cache = new Map<number, number>();
+  const lookup = (r: number, g: number, b: number) => {
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      if (cache.size >= 1 << 16) cache.clear();
+      index = nearestColor(palette, r, g, b);
+      cache.set(key, index);
+    }
+    return index;
+  };
+
+  const paletteKeys = new Set<number>();
+  for (let i = 0; i < colorCount; i++) {
+    paletteKeys.add((palette[i * 3] << 16) | (palette[i * 3 + 1] << 8) | palette[i * 3 + 2]);
+  }
+  const bayerSpread = 255 / Math.max(2, Math.cbrt(colorCount));
+
+  // Floyd–Steinberg error buffers for the current and next row
+  let errors = new Float32Array((width + 2) * 3);
+  let nextErrors = new Float32Array((width + 2) * 3);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x === 0 && i > 0 && dither === 'floyd-steinberg') {
+      [errors, nextErrors] = [nextErrors, errors];
+      nextErrors.fill(0);
+    }
+
+    const p = i << 2;
+    if (colorCount === 0 || (transparentIndex >= 0 && pixels[p + 3] === 0)) {
+      indices[i] = Math.max(0, transparentIndex);
+      continue;
+    }
+
+    let r = pixels[p];
+    let g = pixels[p + 1];
+    let b = pixels[p + 2];
+
+    if (dither === 'floyd-steinberg') {
+      const e = (x + 1) * 3;
+      r = clampByte(r + errors[e]);
+      g = clampByte(g + errors[e + 1]);
+      b = clampByte(b + errors[e + 2]);
+    } else if (dither === 'bayer' && !paletteKeys.has((r << 16) | (g << 8) | b)) {
+      const offset = ((BAYER_8[(y & 7) * 8 + (x & 7)] + 0.5) / 64 - 0.5) * bayerSpread;
+      r = clampByte(r + offset);
+      g = clampByte(g + offset);
+      b = clampByte(b + offset);
+    }
+
+    const index = lookup(r, g, b);
+    indices[i] = index;
+
+    if (dither === 'floyd-steinberg') {
+      const e = (x + 1) * 3;
+      const er = r - palette[index * 3];
+      const eg = g - palette[index * 3 + 1];
+      const eb = b - palette[index * 3 + 2];
+      diffuse(errors, e + 3, er, eg, eb, 7 / 16);
+      diffuse(nextErrors, e - 3, er, eg, eb, 3 / 16);
+      diffuse(nextErrors, e, er, eg, eb, 5 / 16);
+      diffuse(nextErrors, e + 3, er, eg, eb, 1 / 16);
+    }
+  }
+
+  return indices;
+};
+
+export interface QuantizeOptions {
+  maxColors?: number;
+  transparent?: boolean;
+  dither?: GifDitherMode;
+  // Fixed opaque palette to map onto instead of building one from the image
+  palette?: Uint8Array | null;
+}
+
+/**
+ * Reduces one RGBA image to an indexed one. Alpha is ignored unless
+ * `transparent` is set, in which case pixels with zero alpha share one extra
+ * palette slot after the opaque colors.
+ */
+export const quantize = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  options: QuantizeOptions = {}
+): QuantizedImage => {
+  const transparent = options.transparent ?? false;
+  const opaque = options.palette ?? buildPalette([pixels], options.maxColors ?? 256, transparent);
+  const colorCount = opaque.length / 3;
+  const transparentIndex = transparent ? colorCount : -1;
+
+  const palette = new Uint8Array((colorCount + (transparent ? 1 : 0)) * 3);
+  palette.set(opaque);
+  const indices = mapToPalette(pixels, width, opaque, transparentIndex, options.dither ?? 'none');
+  return { palette, indices, transparentIndex };
+};
+
+export const nearestColor = (palette: Uint8Array, r: number, g: number, b: number): number => {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < palette.length / 3; i++) {
+    const dr = palette[i * 3] - r;
+    const dg = palette[i * 3 + 1] - g;
+    const db = palette[i * 3 + 2] - b;
+    const dist = dr * dr + dg * dg + db * db;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+      if (dist === 0) break;
+    }
+  }
+  return best;
+};
+
+/**
+ * Variable-length LZW as specified by GIF89a, written as data sub-blocks
+ * (without the leading minimum code size byte).
+ */
+export const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const out = new ByteWriter();
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const dictionary = new Map<number, number>();
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.writeByte(blockLength);
+    out.writeBytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff;
+      if (blockLength === 255) flushBlock();
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+
+  if (indices.length > 0) {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const existing = dictionary.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+
+      emit(prefix);
+      dictionary.set(key, nextCode++);
+      // The decoder lags one entry behind, so widen once we pass the boundary
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+
+      if (nextCode === 4096) {
+        emit(clearCode);
+        dictionary.clear();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      }
+      prefix = k;
+    }
+    emit(prefix);
+  }
+
+  emit(endCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+
+  return out.toUint8Array();
+};
+
+/**
+ * One palette for the whole animation, built from every frame after the same
+ * alpha threshold the encoder applies. Pass it as `options.palette`. When
+ * optimizing, a slot is left free for the transparent index that unchanged
+ * pixels reuse.
+ */
+export const buildGlobalPalette = (frames: Uint8ClampedArray[], options: GifEncoderOptions): Uint8Array => {
+  const transparent = options.transparent ?? false;
+  const sources = transparent
+    ? frames.map(pixels => applyAlphaThreshold(pixels.slice(), options.alphaThreshold ?? 128, options.matte ?? null))
+    : frames;
+  return buildPalette(sources, options.maxColors ?? 256, transparent || (options.optimize ?? false));
+};
+
+export class GifEncoder {
+  private out = new ByteWriter();
+  private width: number;
+  private height: number;
+  private loop: number;
+  private maxColors: number;
+  private transparent: boolean;
+  private alphaThreshold: number;
+  private matte: [number, number, number] | null;
+  private dither: GifDitherMode;
+  private globalPalette: Uint8Array | null = null;
+  // Whether the global table has a transparent slot after its opaque colors
+  private globalKeyed = false;
+  private finished = false;
+
+  constructor(options: GifEncoderOptions) {
+    this.width = options.width;
+    this.height = options.height;
+    this.loop = options.loop ?? 0;
+    this.maxColors = options.maxColors ?? 256;
+    this.transparent = options.transparent ?? false;
+    this.alphaThreshold = options.alphaThreshold ?? 128;
+    this.matte = options.matte ?? null;
+    this.dither = options.dither ?? 'none';
+    if (options.palette) {
+      // Leave room for the transparent slot within the 256-entry table
+      const limit = 256 - (this.transparent ? 1 : 0);
+      this.globalPalette = options.palette.slice(0, Math.max(1, Math.min(limit, options.palette.length / 3)) * 3);
+      this.globalKeyed = this.transparent || ((options.optimize ?? false) && this.globalPalette.length / 3 < 256);
+    }
+    this.writeHeader();
+  }
+
+  private get globalBits(): number {
+    const count = this.globalPalette!.length / 3 + (this.globalKeyed ? 1 : 0);
+    return tableBits(count);
+  }
+
+  // Frames with their own color table can always reserve a transparent slot
+  get canReuseTransparentIndex(): boolean {
+    return !this.globalPalette || this.globalKeyed;
+  }
+
+  private writeHeader() {
+    const out = this.out;
+    out.writeString('GIF89a');
+
+    // Logical Screen Descriptor. Without a fixed palette there is no global
+    // color table and each frame carries its own.
+    out.writeShort(this.width);
+    out.writeShort(this.height);
+    if (this.globalPalette) {
+      const bits = this.globalBits;
+      out.writeByte(0x80 | ((bits - 1) << 4) | (bits - 1));
+      out.writeByte(0); // Background color index
+      out.writeByte(0); // Pixel aspect ratio
+      const table = new Uint8Array((1 << bits) * 3);
+      table.set(this.globalPalette);
+      out.writeBytes(table);
+    } else {
+      out.writeByte(0x00);
+      out.writeByte(0); // Background color index
+      out.writeByte(0); // Pixel aspect ratio
+    }
+
+    if (this.loop < 0) return;
+
+    // NETSCAPE2.0 application extension for looping
+    out.writeByte(0x21);
+    out.writeByte(0xff);
+    out.writeByte(11);
+    out.writeString('NETSCAPE2.0');
+    out.writeByte(3);
+    out.writeByte(1);
+    out.writeShort(this.loop);
+    out.writeByte(0);
+  }
+
+  /**
+   * Appends a full-canvas RGBA frame. `delay` is in milliseconds and is
+   * rounded to the GIF's centisecond resolution.
+   */
+  addFrame(pixels: Uint8ClampedArray, delay: number) {
+    if (pixels.length !== this.width * this.height * 4) {
+      throw new Error('Frame size does not match GIF dimensions');
+    }
+    const source = this.transparent
+      ? applyAlphaThreshold(pixels.slice(), this.alphaThreshold, this.matte)
+      : pixels;
+    // Transparent frames restore to background so the previous frame does
+    // not show through their clear pixels
+    const rect = { x: 0, y: 0, w: this.width, h: this.height };
+    this.writeFrame(source, rect, delay, this.transparent ? Disposal.RESTORE_BACKGROUND : Disposal.NONE, this.transparent);
+  }
+
+  /**
+   * Appends a frame planned by optimizeFrames. Its pixels are taken as they
+   * are: alpha must already be thresholded.
+   */
+  addRegion(frame: OptimizedFrame) {
+    const { rect } = frame;
+    if (rect.x + rect.w > this.width || rect.y + rect.h > this.height || frame.pixels.length !== rect.w * rect.h * 4) {
+      throw new Error('Frame region does not fit GIF dimensions');
+    }
+    if (frame.keyed && !this.canReuseTransparentIndex) throw new Error('No transparent index available');
+    this.writeFrame(frame.pixels, rect, frame.delay, frame.disposal, frame.keyed);
+  }
+
+  private writeFrame(source: Uint8ClampedArray, rect: Rect, delay: number, disposal: Disposal, keyed: boolean) {
+    if (this.finished) throw new Error('GIF already finished');
+
+    const out = this.out;
+    const { palette, indices, transparentIndex } = quantize(source, rect.w, {
+      maxColors: this.maxColors,
+      transparent: keyed,
+      dither: this.dither,
+      palette: this.globalPalette,
+    });
+    const bits = this.globalPalette ? this.globalBits : tableBits(palette.length / 3);
+
+    // Graphics Control Extension
+    out.writeByte(0x21);
+    out.writeByte(0xf9);
+    out.writeByte(4);
+    out.writeByte((disposal << 2) | (transparentIndex >= 0 ? 0x01 : 0x00));
+    out.writeShort(Math.max(0, Math.round(delay / 10)));
+    out.writeByte(Math.max(0, transparentIndex));
+    out.writeByte(0);
+
+    // Image Descriptor, with a local color table unless the global one applies
+    out.writeByte(0x2c);
+    out.writeShort(rect.x);
+    out.writeShort(rect.y);
+    out.writeShort(rect.w);
+    out.writeShort(rect.h);
+    if (this.globalPalette) {
+      out.writeByte(0x00);
+    } else {
+      out.writeByte(0x80 | (bits - 1));
+      const table = new Uint8Array((1 << bits) * 3);
+      table.set(palette);
+      out.writeBytes(table);
+    }
+
+    const minCodeSize = Math.max(2, bits);
+    out.writeByte(minCodeSize);
+    out.writeBytes(lzwEncode(indices, minCodeSize));
+    out.writeByte(0); // Block terminator
+  }
+
+  finish(): Uint8Array {
+    if (!this.finished) {
+      this.out.writeByte(0x3b);
+      this.finished = true;
+    }
+    return this.out.toUint8Array();
+  }
+}
+
+/**
+ * Encodes a whole animation. With `globalPalette` one palette is built from
+ * every frame, unless `options.palette` already provides one. With
+ * `options.optimize` frames are differenced against what is already on
+ * screen and repeated frames are merged.
+ */
+export const encodeGif = (
+  frames: { pixels: Uint8ClampedArray; delay: number }[],
+  options: GifEncoderOptions,
+  globalPalette: boolean,
+  onProgress?: (progress: number) => void
+): Uint8Array => {
+  const palette = options.palette ?? (globalPalette ? buildGlobalPalette(frames.map(f => f.pixels), options) : null);
+  const encoder = new GifEncoder({ ...options, palette });
+
+  if (!options.optimize) {
+    frames.forEach((frame, i) => {
+      encoder.addFrame(frame.pixels, frame.delay);
+      onProgress?.((i + 1) / frames.length);
+    });
+    return encoder.finish();
+  }
+
+  const transparent = options.transparent ?? false;
+  const sources = transparent
+    ? frames.map(frame => ({
+        pixels: applyAlphaThreshold(frame.pixels.slice(), options.alphaThreshold ?? 128, options.matte ?? null),
+        delay: frame.delay,
+      }))
+    : frames;
+  const optimized = optimizeFrames(sources, options.width, options.height, transparent, encoder.canReuseTransparentIndex);
+  optimized.forEach((frame, i) => {
+    encoder.addRegion(frame);
+    onProgress?.((i + 1) / optimized.length);
+  });
+  return encoder.finish();
+};
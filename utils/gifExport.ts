@@ -0,0 +1,24 @@
+import { ExportOptions, PlaybackConfig } from '../types';
+import { GifEncoderOptions } from './gifEncoder';
+import { hexToRgb } from './color';
+import { paletteToBytes } from './paletteParser';
+import { getGifLoopValue } from './playback';
+
+// Export settings as GIF encoder options, shared by the web worker and the CLI
+export const getGifEncoderOptions = (
+  width: number,
+  height: number,
+  playback: PlaybackConfig,
+  options: ExportOptions
+): GifEncoderOptions => ({
+  width,
+  height,
+  loop: getGifLoopValue(playback.loopCount),
+  maxColors: options.maxColors,
+  dither: options.dither,
+  palette: options.customPalette ? paletteToBytes(options.customPalette) : null,
+  transparent: options.transparent,
+  alphaThreshold: options.alphaThreshold,
+  matte: options.matteColor ? hexToRgb(options.matteColor) : null,
+  optimize: options.optimize,
+});
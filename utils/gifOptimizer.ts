@@ -0,0 +1,138 @@
+import { Rect } from '../types';
+
+// Frame differencing for GIF output: merges identical consecutive frames,
+// crops every frame to the region that changed on screen, lets unchanged
+// pixels inside it show through the transparent index and picks the
+// disposal method that keeps the decoded result identical to full frames.
+
+export enum Disposal {
+  NONE = 0,
+  KEEP = 1, // Leave the frame in place for the next one
+  RESTORE_BACKGROUND = 2 // Clear the frame's region afterwards
+}
+
+export interface OptimizedFrame {
+  pixels: Uint8ClampedArray; // RGBA of `rect` only; zero alpha shows what is already on screen
+  rect: Rect;
+  delay: number; // ms
+  disposal: Disposal;
+  keyed: boolean; // Needs a transparent index
+}
+
+interface SourceFrame {
+  pixels: Uint8ClampedArray;
+  delay: number;
+}
+
+const isSameImage = (a: Uint8ClampedArray, b: Uint8ClampedArray): boolean => {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+// One frame with the summed delay for each run of identical frames
+export const mergeDuplicateFrames = <T extends SourceFrame>(frames: T[]): T[] => {
+  const merged: T[] = [];
+  for (const frame of frames) {
+    const last = merged[merged.length - 1];
+    if (last && isSameImage(last.pixels, frame.pixels)) {
+      merged[merged.length - 1] = { ...last, delay: last.delay + frame.delay };
+    } else {
+      merged.push(frame);
+    }
+  }
+  return merged;
+};
+
+// Whether the decoder already shows `target`'s pixel at byte offset `p`
+const isUnchanged = (screen: Uint8ClampedArray, target: Uint8ClampedArray, p: number, transparent: boolean) => {
+  if (transparent && target[p + 3] === 0) return screen[p + 3] === 0;
+  return screen[p + 3] !== 0 && screen[p] === target[p] && screen[p + 1] === target[p + 1] && screen[p + 2] === target[p + 2];
+};
+
+const boundsOf = (width: number, height: number, test: (p: number) => boolean): Rect | null => {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!test((y * width + x) * 4)) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      bottom = y;
+    }
+  }
+  return right < 0 ? null : { x: left, y: top, w: right - left + 1, h: bottom - top + 1 };
+};
+
+const unionRect = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, w: Math.max(a.x + a.w, b.x + b.w) - x, h: Math.max(a.y + a.h, b.y + b.h) - y };
+};
+
+/**
+ * Plans the frames of an optimized GIF. `frames` are full-canvas RGBA; with
+ * `transparent` their alpha must already be binarized (0 or 255), otherwise
+ * it is ignored. `reuse` tells whether opaque frames can get a transparent
+ * index for unchanged pixels; transparent GIFs always have one.
+ */
+export const optimizeFrames = (
+  frames: SourceFrame[],
+  width: number,
+  height: number,
+  transparent: boolean,
+  reuse: boolean
+): OptimizedFrame[] => {
+  const merged = mergeDuplicateFrames(frames);
+  const screen = new Uint8ClampedArray(width * height * 4); // Starts out clear
+
+  return merged.map((frame, i) => {
+    const target = frame.pixels;
+    let rect = boundsOf(width, height, p => !isUnchanged(screen, target, p, transparent))
+      ?? { x: 0, y: 0, w: 1, h: 1 };
+
+    // Pixels that turn transparent next can only be cleared by disposing
+    // this frame, so its region has to cover them
+    let disposal = Disposal.KEEP;
+    const next = merged[i + 1];
+    if (transparent && next) {
+      const cleared = boundsOf(width, height, p => target[p + 3] !== 0 && next.pixels[p + 3] === 0);
+      if (cleared) {
+        rect = unionRect(rect, cleared);
+        disposal = Disposal.RESTORE_BACKGROUND;
+      }
+    }
+
+    const keyed = transparent || reuse;
+    let hasKey = false;
+    const pixels = new Uint8ClampedArray(rect.w * rect.h * 4);
+    for (let y = 0; y < rect.h; y++) {
+      for (let x = 0; x < rect.w; x++) {
+        const p = ((rect.y + y) * width + rect.x + x) * 4;
+        const o = (y * rect.w + x) * 4;
+        const unchanged = isUnchanged(screen, target, p, transparent);
+        if (keyed && unchanged) {
+          hasKey = true;
+        } else {
+          pixels[o] = target[p];
+          pixels[o + 1] = target[p + 1];
+          pixels[o + 2] = target[p + 2];
+          pixels[o + 3] = transparent ? target[p + 3] : 255;
+          if (pixels[o + 3] === 0) hasKey = true;
+        }
+        if (!unchanged) screen.set(pixels.subarray(o, o + 4), p);
+      }
+    }
+    if (disposal === Disposal.RESTORE_BACKGROUND) {
+      for (let y = rect.y; y < rect.y + rect.h; y++) {
+        screen.fill(0, (y * width + rect.x) * 4, (y * width + rect.x + rect.w) * 4);
+      }
+    }
+
+    return { pixels, rect, delay: frame.delay, disposal, keyed: hasKey };
+  });
+};
@@ -0,0 +1,93 @@
+import { FrameData, SpriteSheetConfig } from '../types';
+import { ProjectSettings } from './projectFile';
+
+// Undo history of whole editor snapshots. Snapshots only hold references to
+// the immutable state objects, so keeping many of them is cheap.
+
+export type EditorSettings = Omit<ProjectSettings, 'onionSkin'>; // Onion skin is a view option
+
+export interface EditorSnapshot {
+  frames: FrameData[];
+  spriteConfig: SpriteSheetConfig;
+  settings: EditorSettings;
+}
+
+export interface HistoryEntry {
+  label: string;
+  snapshot: EditorSnapshot;
+  time: number; // ms timestamp of the last change merged into this entry
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry matching the current state; later entries can be redone
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+export const createHistory = (snapshot: EditorSnapshot, label: string): EditHistory => ({
+  entries: [{ label, snapshot, time: Date.now() }],
+  index: 0,
+});
+
+/**
+ * Records a new state and drops the redo branch. Changes with the same label
+ * inside `mergeWindow` ms collapse into one entry, so dragging a slider is a
+ * single undo step.
+ */
+export const pushHistory = (history: EditHistory, entry: HistoryEntry, mergeWindow: number): EditHistory => {
+  const entries = history.entries.slice(0, history.index + 1);
+  const last = entries[entries.length - 1];
+  if (last && entries.length > 1 && last.label === entry.label && entry.time - last.time < mergeWindow) {
+    entries[entries.length - 1] = entry;
+  } else {
+    entries.push(entry);
+  }
+  const trimmed = entries.slice(-MAX_HISTORY_ENTRIES);
+  return { entries: trimmed, index: trimmed.length - 1 };
+};
+
+// Images an entry can bring back, which must stay loaded while it exists
+export const getHistoryImageUrls = (history: EditHistory): Set<string> => {
+  const urls = new Set<string>();
+  for (const { snapshot } of history.entries) {
+    snapshot.frames.forEach(frame => urls.add(frame.url));
+    if (snapshot.spriteConfig.originalImage) urls.add(snapshot.spriteConfig.originalImage.url);
+  }
+  return urls;
+};
+
+const SETTING_LABELS: Record<keyof EditorSettings, string> = {
+  fps: '帧率',
+  backgroundColor: '背景颜色',
+  exportOptions: '导出设置',
+  sheetOptions: '雪碧图导出设置',
+  layoutConfig: '画布与对齐',
+  playback: '播放设置',
+  filters: '滤镜',
+  overlays: '文字与水印',
+};
+
+const describeFrameChange = (prev: FrameData[], next: FrameData[]): string => {
+  if (next.length === 0) return '清空帧';
+  if (next.length < prev.length) return `删除 ${prev.length - next.length} 帧`;
+  if (next.length > prev.length) return `添加 ${next.length - prev.length} 帧`;
+  const reordered = next.some((frame, i) => frame.id !== prev[i].id);
+  return reordered ? '调整帧顺序' : '编辑帧';
+};
+
+/**
+ * Names what changed between two snapshots, or returns null when nothing
+ * did. Unchanged parts are the same objects, so reference checks suffice.
+ */
+export const describeSnapshotChange = (prev: EditorSnapshot, next: EditorSnapshot): string | null => {
+  const labels: string[] = [];
+  if (prev.frames !== next.frames) labels.push(describeFrameChange(prev.frames, next.frames));
+  if (prev.spriteConfig !== next.spriteConfig) {
+    labels.push(prev.spriteConfig.originalImage !== next.spriteConfig.originalImage ? '更换雪碧图' : '切分设置');
+  }
+  (Object.keys(SETTING_LABELS) as (keyof EditorSettings)[]).forEach(key => {
+    if (prev.settings[key] !== next.settings[key]) labels.push(SETTING_LABELS[key]);
+  });
+  return labels.length > 0 ? labels.join('、') : null;
+};
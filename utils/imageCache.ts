@@ -0,0 +1,151 @@
+// Memory model for long sequences. Imported images are referenced through
+// object URLs instead of data URLs, the player draws from a size-bounded
+// cache of decoded ImageBitmaps, and the timeline shows small thumbnails
+// that are only made once they scroll into view.
+
+// Decoded bytes kept for the player; the least recently drawn frames go first
+const MAX_BITMAP_BYTES = 256 * 1024 * 1024;
+
+// px along the longest side, twice the timeline cell for high-DPI screens
+const THUMBNAIL_SIZE = 128;
+
+interface CachedBitmap {
+  bitmap: ImageBitmap;
+  bytes: number;
+}
+
+// Object URLs we created, and whether the editor state has referenced them yet
+const ownedUrls = new Map<string, boolean>();
+const bitmaps = new Map<string, CachedBitmap>(); // In use order, most recent last
+const pendingBitmaps = new Map<string, Promise<ImageBitmap>>();
+const thumbnails = new Map<string, Promise<string>>();
+const readyThumbnails = new Map<string, string>();
+let bitmapBytes = 0;
+let thumbnailQueue: Promise<unknown> = Promise.resolve();
+
+export const createImageUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  ownedUrls.set(url, false);
+  return url;
+};
+
+// Frees an image that never made it into the editor, e.g. one that failed to load
+export const revokeImageUrl = (url: string) => {
+  if (!ownedUrls.delete(url)) return;
+  URL.revokeObjectURL(url);
+  evictBitmap(url);
+};
+
+const evictBitmap = (url: string) => {
+  const cached = bitmaps.get(url);
+  if (!cached) return;
+  bitmaps.delete(url);
+  bitmapBytes -= cached.bytes;
+  cached.bitmap.close();
+};
+
+// The decoded image if it is cached, marking it as recently used
+export const getCachedBitmap = (url: string): ImageBitmap | undefined => {
+  const cached = bitmaps.get(url);
+  if (!cached) return undefined;
+  bitmaps.delete(url);
+  bitmaps.set(url, cached);
+  return cached.bitmap;
+};
+
+/**
+ * Decodes the image at `url` once and caches it. Loading past the budget
+ * evicts (and closes) the least recently used bitmaps, so callers check
+ * the bitmap is still open when they draw it after awaiting others.
+ */
+export const loadBitmap = (url: string): Promise<ImageBitmap> => {
+  const cached = getCachedBitmap(url);
+  if (cached) return Promise.resolve(cached);
+  const pending = pendingBitmaps.get(url);
+  if (pending) return pending;
+
+  const request = fetch(url)
+    .then(response => response.blob())
+    .then(blob => createImageBitmap(blob))
+    .then(bitmap => {
+      const bytes = bitmap.width * bitmap.height * 4;
+      bitmaps.set(url, { bitmap, bytes });
+      bitmapBytes += bytes;
+      for (const key of bitmaps.keys()) {
+        if (bitmapBytes <= MAX_BITMAP_BYTES || key === url) break;
+        evictBitmap(key);
+      }
+      return bitmap;
+    })
+    .finally(() => pendingBitmaps.delete(url));
+  pendingBitmaps.set(url, request);
+  return request;
+};
+
+// Decodes ahead of playback; failures show up when the frame is drawn
+export const prefetchBitmaps = (urls: string[]) => {
+  for (const url of urls) {
+    if (!bitmaps.has(url)) loadBitmap(url).catch(() => {});
+  }
+};
+
+export const getCachedThumbnail = (url: string): string | undefined => readyThumbnails.get(url);
+
+/**
+ * Object URL of a small PNG preview. Thumbnails are made one at a time so
+ * scrolling through a long timeline never decodes hundreds of images at once.
+ */
+export const loadThumbnail = (url: string, width: number, height: number): Promise<string> => {
+  const known = thumbnails.get(url);
+  if (known) return known;
+
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height, 1));
+  const thumbnailWidth = Math.max(1, Math.round(width * scale));
+  const thumbnailHeight = Math.max(1, Math.round(height * scale));
+  const request = thumbnailQueue.then(async () => {
+    const blob = await (await fetch(url)).blob();
+    const bitmap = await createImageBitmap(blob, {
+      resizeWidth: thumbnailWidth,
+      resizeHeight: thumbnailHeight,
+      resizeQuality: 'medium',
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = thumbnailWidth;
+    canvas.height = thumbnailHeight;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve));
+    if (!thumbnail) throw new Error("Thumbnail encoding failed");
+    const thumbnailUrl = URL.createObjectURL(thumbnail);
+    readyThumbnails.set(url, thumbnailUrl);
+    return thumbnailUrl;
+  });
+  thumbnailQueue = request.catch(() => {});
+  thumbnails.set(url, request);
+  request.catch(() => thumbnails.delete(url));
+  return request;
+};
+
+/**
+ * Revokes our object URLs that nothing refers to anymore, with their cached
+ * bitmaps and thumbnails. Frames live on in the undo history after they are
+ * deleted, so this sweeps against everything still reachable instead of
+ * releasing on removal. URLs that were never in use are left alone, their
+ * import may still be running.
+ */
+export const releaseUnusedImages = (inUse: Set<string>) => {
+  for (const [url, adopted] of ownedUrls) {
+    if (inUse.has(url)) {
+      if (!adopted) ownedUrls.set(url, true);
+      continue;
+    }
+    if (!adopted) continue;
+    ownedUrls.delete(url);
+    URL.revokeObjectURL(url);
+    evictBitmap(url);
+    const thumbnail = thumbnails.get(url);
+    thumbnails.delete(url);
+    readyThumbnails.delete(url);
+    thumbnail?.then(thumbnailUrl => URL.revokeObjectURL(thumbnailUrl), () => {});
+  }
+};
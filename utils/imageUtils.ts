@@ -1,8 +1,17 @@
-import { FrameData, AppMode, SpriteSheetConfig } from '../types';
-
-declare const GIF: any;
-
-const GIF_WORKER_URL = 'https://cdnjs.cloudflare.com/ajax/libs/gif.js/0.2.0/gif.worker.js';
+import { FrameData, AppMode, SpriteSheetConfig, ExportFormat, ExportOptions, ExportStage, FrameFilter, Overlay, TextOverlay, SpriteSheetExportOptions, FrameLayoutConfig, PlaybackConfig, Rect } from '../types';
+import { decodeGif } from './gifDecoder';
+import { decodePng, isPng } from './pngDecoder';
+import { layoutSpriteSheet, buildAtlas } from './spriteAtlas';
+import { createSpriteConfig, getSpriteFramePlacement, drawSpriteFrame } from './spriteSlicing';
+import { encodeApng } from './apngEncoder';
+import { encodeAnimatedWebp, WebpFrame } from './webpEncoder';
+import { computeFrameLayout, getLayoutSources, getOpaqueBounds, FrameLayout, LayoutPlacement } from './frameLayout';
+import { createFrameId } from './frameOperations';
+import { hexToRgb } from './color';
+import { createImageUrl, revokeImageUrl } from './imageCache';
+import { applyFrameFilters, getActiveFilters, getFilterFrameKey } from './frameFilters';
+import { createOverlayLayer, OverlayLayer, RenderedAnimation, RgbaImage } from './frameRenderer';
+import type { ExportWorkerRequest, ExportWorkerResponse, ExportWorkerResult } from './exportWorker';
 
 export const readFileAsDataURL = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -24,7 +33,7 @@ export const loadImageData = (url: string, file: File): Promise<FrameData> => {
     const img = new Image();
     img.onload = () => {
       resolve({
-        id: Math.random().toString(36).substr(2, 9),
+        id: createFrameId(),
         url,
         file,
         width: img.naturalWidth,
@@ -36,6 +45,68 @@ export const loadImageData = (url: string, file: File): Promise<FrameData> => {
   });
 };
 
+// Frame for an imported file. Object URLs point at the file itself, so
+// long sequences do not keep a base64 copy of every image in memory.
+export const loadImageFile = async (file: File): Promise<FrameData> => {
+  const url = createImageUrl(file);
+  try {
+    return await loadImageData(url, file);
+  } catch (error) {
+    revokeImageUrl(url);
+    throw error;
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("Failed to encode canvas"));
+      }
+    }, type, quality);
+  });
+};
+
+/**
+ * Expands an animated GIF into one composited PNG frame per GIF frame,
+ * keeping each frame's original delay. Returns null for non-GIF files and
+ * single-frame GIFs so callers can fall back to loading the file as-is.
+ */
+export const loadGifFrames = async (file: File): Promise<FrameData[] | null> => {
+  if (file.type !== 'image/gif') return null;
+
+  const gif = decodeGif(new Uint8Array(await file.arrayBuffer()));
+  if (gif.frames.length <= 1) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = gif.width;
+  canvas.height = gif.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const digits = Math.max(3, String(gif.frames.length).length);
+  const result: FrameData[] = [];
+
+  for (let i = 0; i < gif.frames.length; i++) {
+    const frame = gif.frames[i];
+    ctx.putImageData(new ImageData(frame.pixels, gif.width, gif.height), 0, 0);
+    const blob = await canvasToBlob(canvas);
+    result.push({
+      id: createFrameId(),
+      url: createImageUrl(blob),
+      file: new File([blob], `${baseName}_${String(i + 1).padStart(digits, '0')}.png`, { type: 'image/png' }),
+      width: gif.width,
+      height: gif.height,
+      duration: frame.delay,
+    });
+  }
+
+  return result;
+};
+
 const loadImageElement = (url: string): Promise<HTMLImageElement> => {
     return new Promise((resolve, reject) => {
         const img = new Image();
@@ -46,141 +117,641 @@ const loadImageElement = (url: string): Promise<HTMLImageElement> => {
     });
 };
 
-export const generateSpriteSheet = (frames: FrameData[], cols: number): string | null => {
+export const getImagePixels = async (url: string): Promise<ImageData> => {
+  const img = await loadImageElement(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+export interface SpriteSheetResult {
+  image: Blob;
+  atlas: string | null; // JSON atlas descriptor when a format was requested
+}
+
+export const generateSpriteSheet = async (
+  frames: FrameData[],
+  layoutConfig: FrameLayoutConfig,
+  options: SpriteSheetExportOptions,
+  durations: number[],
+  filters: FrameFilter[],
+  imageName: string = 'spritesheet.png'
+): Promise<SpriteSheetResult | null> => {
   if (frames.length === 0) return null;
 
+  // Sheets are built from individual frames, the sprite config is unused
+  const spriteConfig = createSpriteConfig(null);
+  const images = await loadSourceImages(AppMode.MULTI_IMAGE, frames, spriteConfig);
+
+  // Every cell is one frame of the shared layout, as the animation shows it
+  const frameLayout = await resolveFrameLayout(AppMode.MULTI_IMAGE, frames, spriteConfig, layoutConfig, filters);
+  const cellWidth = frameLayout.width;
+  const cellHeight = frameLayout.height;
+  const layout = layoutSpriteSheet(frames.length, cellWidth, cellHeight, options);
+
   const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
   const ctx = canvas.getContext('2d');
-  if (!ctx) return null;
+  const cellCanvas = document.createElement('canvas');
+  cellCanvas.width = cellWidth;
+  cellCanvas.height = cellHeight;
+  const cellCtx = cellCanvas.getContext('2d');
+  if (!ctx || !cellCtx) return null;
+  ctx.imageSmoothingEnabled = false;
 
-  // Assume all frames are roughly same size, use the max dimensions
-  const maxWidth = Math.max(...frames.map(f => f.width));
-  const maxHeight = Math.max(...frames.map(f => f.height));
+  images.forEach((img, index) => {
+    cellCtx.clearRect(0, 0, cellWidth, cellHeight);
+    drawLayoutFrame(cellCtx, AppMode.MULTI_IMAGE, img, spriteConfig, index, frameLayout.placements[index]);
+    applyCanvasFilters(cellCtx, cellWidth, cellHeight, getActiveFilters(filters, frames[index].id));
 
-  const rows = Math.ceil(frames.length / cols);
-  
-  canvas.width = maxWidth * cols;
-  canvas.height = maxHeight * rows;
+    const { x, y } = layout.cells[index];
+    const w = cellWidth;
+    const h = cellHeight;
+    ctx.drawImage(cellCanvas, x, y);
 
-  frames.forEach((frame, index) => {
-    const x = (index % cols) * maxWidth;
-    const y = Math.floor(index / cols) * maxHeight;
-    
-    const img = new Image();
-    img.src = frame.url;
-    // Draw centered in the grid cell
-    ctx.drawImage(img, 
-      0, 0, frame.width, frame.height, 
-      x + (maxWidth - frame.width) / 2, y + (maxHeight - frame.height) / 2, 
-      frame.width, frame.height
-    );
+    const e = options.extrude;
+    if (e > 0) {
+      // Stretch the outermost rows/columns (and corner pixels) outward
+      ctx.drawImage(cellCanvas, 0, 0, w, 1, x, y - e, w, e);
+      ctx.drawImage(cellCanvas, 0, h - 1, w, 1, x, y + h, w, e);
+      ctx.drawImage(cellCanvas, 0, 0, 1, h, x - e, y, e, h);
+      ctx.drawImage(cellCanvas, w - 1, 0, 1, h, x + w, y, e, h);
+      ctx.drawImage(cellCanvas, 0, 0, 1, 1, x - e, y - e, e, e);
+      ctx.drawImage(cellCanvas, w - 1, 0, 1, 1, x + w, y - e, e, e);
+      ctx.drawImage(cellCanvas, 0, h - 1, 1, 1, x - e, y + h, e, e);
+      ctx.drawImage(cellCanvas, w - 1, h - 1, 1, 1, x + w, y + h, e, e);
+    }
   });
 
-  return canvas.toDataURL('image/png');
+  // Atlas keys must be unique even when the same file was dropped twice
+  const seen = new Map<string, number>();
+  const names = frames.map((frame) => {
+    const count = seen.get(frame.file.name) ?? 0;
+    seen.set(frame.file.name, count + 1);
+    return count === 0 ? frame.file.name : `${frame.file.name}#${count}`;
+  });
+
+  const atlas = options.atlasFormat
+    ? buildAtlas(
+        layout,
+        frames.map((_, i) => ({ name: names[i], duration: durations[i] })),
+        options.atlasFormat,
+        imageName
+      )
+    : null;
+
+  return { image: await canvasToBlob(canvas), atlas };
 };
 
-export const generateGif = async (
+// Source images of the current mode: one per frame, or the single sheet
+const loadSourceImages = async (
     mode: AppMode,
     frames: FrameData[],
-    spriteConfig: SpriteSheetConfig,
-    fps: number,
-    backgroundColor: string,
-    onProgress: (progress: number) => void
-): Promise<Blob> => {
-    // 1. Fetch worker to create a local blob URL (bypassing CORS for workers)
-    const workerResponse = await fetch(GIF_WORKER_URL);
-    const workerBlob = await workerResponse.blob();
-    const workerUrl = URL.createObjectURL(workerBlob);
-
-    // 2. Prepare images
+    spriteConfig: SpriteSheetConfig
+): Promise<HTMLImageElement[]> => {
     const images: HTMLImageElement[] = [];
     if (mode === AppMode.MULTI_IMAGE) {
         for (const frame of frames) {
             images.push(await loadImageElement(frame.url));
         }
-    } else {
-        if (spriteConfig.originalImage) {
-            images.push(await loadImageElement(spriteConfig.originalImage.url));
-        }
+    } else if (spriteConfig.originalImage) {
+        images.push(await loadImageElement(spriteConfig.originalImage.url));
     }
+    return images;
+};
 
-    if (images.length === 0) throw new Error("No images to process");
-
-    // 3. Determine Dimensions
-    let width = 0;
-    let height = 0;
+/**
+ * Draws logical frame `index` at its layout placement, clipped to its
+ * layout region. `image` is the frame's own image, or the sheet in sprite mode.
+ */
+export const drawLayoutFrame = (
+    ctx: CanvasRenderingContext2D,
+    mode: AppMode,
+    image: CanvasImageSource,
+    spriteConfig: SpriteSheetConfig,
+    index: number,
+    placement: LayoutPlacement
+) => {
+    const { clip } = placement;
+    if (clip.w <= 0 || clip.h <= 0) return;
 
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(clip.x, clip.y, clip.w, clip.h);
+    ctx.clip();
     if (mode === AppMode.MULTI_IMAGE) {
-        width = images[0].naturalWidth;
-        height = images[0].naturalHeight;
-    } else if (mode === AppMode.SPRITE_SHEET && spriteConfig.originalImage) {
-        width = Math.floor(spriteConfig.originalImage.width / spriteConfig.cols);
-        height = Math.floor(spriteConfig.originalImage.height / spriteConfig.rows);
+        ctx.drawImage(image, placement.x, placement.y);
+    } else {
+        const spritePlacement = getSpriteFramePlacement(spriteConfig, index);
+        if (spritePlacement) {
+            ctx.translate(placement.x, placement.y);
+            drawSpriteFrame(ctx, image, spritePlacement);
+        }
     }
+    ctx.restore();
+};
+
+// Runs frame filters over a canvas, for the paths that draw with the browser
+export const applyCanvasFilters = (ctx: CanvasRenderingContext2D, width: number, height: number, filters: FrameFilter[]) => {
+    if (filters.length === 0 || width === 0 || height === 0) return;
+    const imageData = ctx.getImageData(0, 0, width, height);
+    applyFrameFilters(imageData.data, filters);
+    ctx.putImageData(imageData, 0, 0);
+};
+
+// Non-transparent bounds of every logical frame after its filters, for the 'trim' size policy
+export const measureFrameContent = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    filters: FrameFilter[]
+): Promise<(Rect | null)[]> => {
+    const images = await loadSourceImages(mode, frames, spriteConfig);
+    const sources = getLayoutSources(mode, frames, spriteConfig);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas context failed");
 
-    // 4. Initialize GIF
-    const gif = new GIF({
-        workers: 2,
-        quality: 1, // Best quality (1 is best, 10 is default/worst)
-        width,
-        height,
-        workerScript: workerUrl,
-        background: backgroundColor, 
-        transparent: null 
+    return sources.map((source, i) => {
+        const image = mode === AppMode.MULTI_IMAGE ? images[i] : images[0];
+        if (!image || source.width === 0 || source.height === 0) return null;
+        canvas.width = source.width;
+        canvas.height = source.height;
+        const clip = { x: 0, y: 0, w: source.width, h: source.height };
+        drawLayoutFrame(ctx, mode, image, spriteConfig, i, { x: 0, y: 0, clip });
+        applyCanvasFilters(ctx, source.width, source.height, getActiveFilters(filters, getFilterFrameKey(mode, frames, i)));
+        return getOpaqueBounds(ctx.getImageData(0, 0, source.width, source.height).data, source.width, source.height);
     });
+};
 
+// The shared layout for the current frames, measuring content only when trimming
+export const resolveFrameLayout = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    filters: FrameFilter[]
+): Promise<FrameLayout> => {
+    const content = layoutConfig.sizePolicy === 'trim'
+        ? await measureFrameContent(mode, frames, spriteConfig, filters)
+        : null;
+    return computeFrameLayout(getLayoutSources(mode, frames, spriteConfig, content), layoutConfig);
+};
+
+// Decodes a source image to RGBA. PNGs go through the shared decoder so the
+// result matches the command-line builder; other formats use the browser.
+const decodeSourceImage = async (frame: FrameData): Promise<RgbaImage> => {
+    const data = new Uint8Array(await frame.file.arrayBuffer());
+    if (isPng(data)) return decodePng(data);
+    const imageData = await getImagePixels(frame.url);
+    return { width: imageData.width, height: imageData.height, pixels: imageData.data };
+};
+
+const TEXT_LINE_HEIGHT = 1.2;
+
+const getOverlayFont = (overlay: TextOverlay): string => {
+    const family = /\s/.test(overlay.fontFamily) ? `"${overlay.fontFamily}"` : overlay.fontFamily;
+    return `${overlay.bold ? 'bold ' : ''}${overlay.fontSize}px ${family}`;
+};
+
+// Draws the text of an overlay onto a canvas just large enough for it and its outline
+const rasterizeText = (overlay: TextOverlay): RgbaImage | null => {
+    if (!overlay.text.trim()) return null;
+    const lines = overlay.text.split('\n');
     const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) throw new Error("Canvas context failed");
 
-    const totalFramesToRender = mode === AppMode.MULTI_IMAGE 
-        ? images.length 
-        : spriteConfig.totalFrames;
+    ctx.font = getOverlayFont(overlay);
+    const padding = Math.ceil(overlay.strokeWidth / 2) + 1;
+    const lineHeight = Math.ceil(overlay.fontSize * TEXT_LINE_HEIGHT);
+    canvas.width = Math.ceil(Math.max(...lines.map(line => ctx.measureText(line).width))) + padding * 2;
+    canvas.height = lineHeight * lines.length + padding * 2;
 
-    // 5. Draw Frames
-    for (let i = 0; i < totalFramesToRender; i++) {
-        // Clear with background color
-        ctx.fillStyle = backgroundColor;
-        ctx.fillRect(0, 0, width, height);
-
-        if (mode === AppMode.MULTI_IMAGE) {
-            const img = images[i];
-            // Center image if dimensions differ
-            const x = (width - img.naturalWidth) / 2;
-            const y = (height - img.naturalHeight) / 2;
-            ctx.drawImage(img, x, y);
+    // Resizing reset the context
+    ctx.font = getOverlayFont(overlay);
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = overlay.strokeWidth;
+    ctx.strokeStyle = overlay.strokeColor;
+    ctx.fillStyle = overlay.color;
+    lines.forEach((line, i) => {
+        const y = padding + lineHeight * (i + 0.5);
+        if (overlay.strokeWidth > 0) ctx.strokeText(line, padding, y);
+        ctx.fillText(line, padding, y);
+    });
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return { width: imageData.width, height: imageData.height, pixels: imageData.data };
+};
+
+/**
+ * Rasterizes the enabled overlays into the layers the renderer composites.
+ * The player draws the same layers, so the preview matches the export.
+ */
+export const loadOverlayLayers = async (overlays: Overlay[]): Promise<OverlayLayer[]> => {
+    const layers: OverlayLayer[] = [];
+    for (const overlay of overlays) {
+        if (!overlay.enabled) continue;
+        let source: RgbaImage | null;
+        if (overlay.type === 'text') {
+            source = rasterizeText(overlay);
         } else {
-            const img = images[0];
-            const { rows, cols } = spriteConfig;
-            const frameW = width; // calculated above
-            const frameH = height; // calculated above
-            
-            const col = i % cols;
-            const row = Math.floor(i / cols);
-            const sx = col * frameW;
-            const sy = row * frameH;
-
-            ctx.drawImage(img, sx, sy, frameW, frameH, 0, 0, frameW, frameH);
+            const imageData = await getImagePixels(overlay.src);
+            source = { width: imageData.width, height: imageData.height, pixels: imageData.data };
         }
+        if (source) layers.push(createOverlayLayer(overlay, source));
+    }
+    return layers;
+};
+
+// Reports the current export stage and its progress (0-1)
+export type ExportProgressHandler = (stage: ExportStage, progress: number) => void;
 
-        gif.addFrame(ctx, { copy: true, delay: 1000 / fps });
+/**
+ * Export failure whose message can be shown to the user as is. `stage` is
+ * where it happened, null for problems found before the export starts.
+ */
+export class ExportError extends Error {
+    constructor(message: string, readonly stage: ExportStage | null = null, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'ExportError';
+    }
+}
+
+const STAGE_FAILURES: Record<ExportStage, string> = {
+    loading: '读取图片失败',
+    rendering: '渲染帧失败',
+    encoding: '编码失败'
+};
+
+// Decoded source images of the current mode; frames sharing a file decode it once
+const loadSourcePixels = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    onProgress: (progress: number) => void = () => {},
+    signal?: AbortSignal
+): Promise<RgbaImage[]> => {
+    const sources = mode === AppMode.MULTI_IMAGE
+        ? frames
+        : spriteConfig.originalImage ? [spriteConfig.originalImage] : [];
+    const decoded = new Map<File, RgbaImage>();
+    const images: RgbaImage[] = [];
+    for (const frame of sources) {
+        signal?.throwIfAborted();
+        let image = decoded.get(frame.file);
+        if (!image) {
+            image = await decodeSourceImage(frame);
+            decoded.set(frame.file, image);
+        }
+        images.push(image);
+        onProgress(images.length / sources.length);
     }
+    return images;
+};
 
-    // 6. Render
+/**
+ * Runs the export worker, terminating it once it is done, fails or the
+ * signal aborts. Rejects with the abort reason when cancelled.
+ */
+const runExportWorker = (
+    request: ExportWorkerRequest,
+    onProgress: ExportProgressHandler,
+    signal?: AbortSignal
+): Promise<ExportWorkerResult> => {
+    signal?.throwIfAborted();
     return new Promise((resolve, reject) => {
-        gif.on('progress', (p: number) => {
-            onProgress(p);
-        });
+        const worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+        const cleanup = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+        const handleAbort = () => {
+            cleanup();
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', handleAbort, { once: true });
+
+        worker.onmessage = (e: MessageEvent<ExportWorkerResponse>) => {
+            const message = e.data;
+            if (message.type === 'progress') {
+                onProgress(message.stage, message.progress);
+                return;
+            }
+            cleanup();
+            if (message.type === 'error') reject(new Error(message.message));
+            else resolve(message);
+        };
+
+        worker.onerror = (e) => {
+            cleanup();
+            reject(new Error(e.message || "Export worker failed"));
+        };
+
+        // Frames sharing a sheet share its buffer, which may only be transferred once
+        worker.postMessage(request, [...new Set(request.images.map(image => image.pixels.buffer as ArrayBuffer))]);
+    });
+};
+
+const createWorkerRequest = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    playback: PlaybackConfig,
+    fps: number,
+    backgroundColor: string,
+    options: ExportOptions,
+    filters: FrameFilter[],
+    overlays: Overlay[],
+    encodeGif: boolean,
+    onProgress: ExportProgressHandler,
+    signal?: AbortSignal
+): Promise<ExportWorkerRequest> => {
+    const images = await loadSourcePixels(mode, frames, spriteConfig, progress => onProgress('loading', progress), signal);
+    const overlayLayers = await loadOverlayLayers(overlays);
+    // Cancelled while the overlay images loaded
+    signal?.throwIfAborted();
+    return { mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays: overlayLayers, images, encodeGif };
+};
+
+// Frames of every non-GIF exporter, rendered by the DOM-free core in a worker
+export const renderAnimationFrames = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    playback: PlaybackConfig,
+    fps: number,
+    backgroundColor: string,
+    options: ExportOptions,
+    filters: FrameFilter[],
+    overlays: Overlay[],
+    onProgress: ExportProgressHandler = () => {},
+    signal?: AbortSignal
+): Promise<RenderedAnimation> => {
+    const request = await createWorkerRequest(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, false, onProgress, signal);
+    const result = await runExportWorker(request, onProgress, signal);
+    if (result.type !== 'rendered') throw new Error("Unexpected export worker result");
+    return result.animation;
+};
+
+// Renders and encodes in the worker, leaving the main thread free
+export const generateGif = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    playback: PlaybackConfig,
+    fps: number,
+    backgroundColor: string,
+    options: ExportOptions,
+    filters: FrameFilter[],
+    overlays: Overlay[],
+    onProgress: ExportProgressHandler,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const request = await createWorkerRequest(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, true, onProgress, signal);
+    const result = await runExportWorker(request, onProgress, signal);
+    if (result.type !== 'finished') throw new Error("Unexpected export worker result");
+    return new Blob([result.data], { type: 'image/gif' });
+};
+
+// Size in bytes of the GIF an export with these settings would produce
+export const estimateGifSize = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    playback: PlaybackConfig,
+    fps: number,
+    backgroundColor: string,
+    options: ExportOptions,
+    filters: FrameFilter[],
+    overlays: Overlay[],
+    signal?: AbortSignal
+): Promise<number> => {
+    const blob = await generateGif(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, () => {}, signal);
+    return blob.size;
+};
+
+export const generateApng = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    playback: PlaybackConfig,
+    fps: number,
+    backgroundColor: string,
+    options: ExportOptions,
+    filters: FrameFilter[],
+    overlays: Overlay[],
+    onProgress: ExportProgressHandler,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const animation = await renderAnimationFrames(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, onProgress, signal);
+    const data = await encodeApng(
+        animation.frames,
+        { width: animation.width, height: animation.height, loop: playback.loopCount },
+        progress => {
+            // Throwing from the callback stops the encoder between frames
+            signal?.throwIfAborted();
+            onProgress('encoding', progress);
+        }
+    );
+    return new Blob([data as BlobPart], { type: 'image/apng' });
+};
+
+export const generateWebp = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    playback: PlaybackConfig,
+    fps: number,
+    backgroundColor: string,
+    options: ExportOptions,
+    filters: FrameFilter[],
+    overlays: Overlay[],
+    onProgress: ExportProgressHandler,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const animation = await renderAnimationFrames(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, onProgress, signal);
 
-        gif.on('finished', (blob: Blob) => {
-            URL.revokeObjectURL(workerUrl); // Clean up
-            resolve(blob);
-        });
+    const canvas = document.createElement('canvas');
+    canvas.width = animation.width;
+    canvas.height = animation.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+
+    // Each frame goes through the browser's still WebP encoder first
+    const webpFrames: WebpFrame[] = [];
+    for (let i = 0; i < animation.frames.length; i++) {
+        signal?.throwIfAborted();
+        const frame = animation.frames[i];
+        ctx.putImageData(new ImageData(frame.pixels, animation.width, animation.height), 0, 0);
+        const blob = await canvasToBlob(canvas, 'image/webp', options.webpQuality);
+        if (blob.type !== 'image/webp') {
+            throw new ExportError("当前浏览器不支持 WebP 编码，请换用 Chrome 或 Edge", 'encoding');
+        }
+        webpFrames.push({ data: new Uint8Array(await blob.arrayBuffer()), delay: frame.delay });
+        onProgress('encoding', (i + 1) / animation.frames.length);
+    }
 
-        gif.render();
+    const [r, g, b] = hexToRgb(backgroundColor);
+    const data = encodeAnimatedWebp(webpFrames, {
+        width: animation.width,
+        height: animation.height,
+        loop: playback.loopCount,
+        background: options.transparent ? [0, 0, 0, 0] : [r, g, b, 255]
     });
+    return new Blob([data as BlobPart], { type: 'image/webp' });
+};
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Records the animation as a WebM clip. Frames are pushed into a canvas
+ * capture stream one by one and held for their own duration, so recording
+ * takes as long as the clip plays.
+ */
+export const generateWebm = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    playback: PlaybackConfig,
+    fps: number,
+    backgroundColor: string,
+    options: ExportOptions,
+    filters: FrameFilter[],
+    overlays: Overlay[],
+    onProgress: ExportProgressHandler,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    if (typeof MediaRecorder === 'undefined') throw new ExportError("当前浏览器不支持录制视频");
+    const mimeType = WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new ExportError("当前浏览器不支持录制 WebM 视频");
+
+    // Video has no alpha channel here, frames always sit on the background
+    const animation = await renderAnimationFrames(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, { ...options, transparent: false }, filters, overlays, onProgress, signal);
+
+    const source = document.createElement('canvas');
+    source.width = animation.width;
+    source.height = animation.height;
+    const sourceCtx = source.getContext('2d');
+
+    // Encoders want even dimensions
+    const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+    const canvas = document.createElement('canvas');
+    canvas.width = even(animation.width);
+    canvas.height = even(animation.height);
+    const ctx = canvas.getContext('2d');
+    if (!sourceCtx || !ctx) throw new Error("Canvas context failed");
+    ctx.imageSmoothingEnabled = options.resampling === 'smooth';
+
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.videoBitrate });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+        recorder.onstop = () => resolve();
+    });
+
+    const repeat = Math.max(1, Math.round(options.videoRepeat));
+    const totalSteps = repeat * animation.frames.length;
+    const drawFrame = (index: number) => {
+        const frame = animation.frames[index];
+        sourceCtx.putImageData(new ImageData(frame.pixels, animation.width, animation.height), 0, 0);
+        ctx.fillStyle = backgroundColor;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+        track.requestFrame();
+    };
+
+    try {
+        recorder.start();
+        // Schedule against absolute times so timer jitter does not accumulate
+        const start = performance.now();
+        let elapsed = 0;
+        for (let step = 0; step < totalSteps; step++) {
+            signal?.throwIfAborted();
+            const index = step % animation.frames.length;
+            drawFrame(index);
+            elapsed += animation.frames[index].delay;
+            await sleep(Math.max(0, start + elapsed - performance.now()));
+            onProgress('encoding', (step + 1) / totalSteps);
+        }
+        // Repeat the last frame so its full duration ends up in the recording
+        drawFrame(animation.frames.length - 1);
+        recorder.stop();
+        await stopped;
+    } finally {
+        if (recorder.state !== 'inactive') recorder.stop();
+        stream.getTracks().forEach(t => t.stop());
+    }
+
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+    gif: 'gif',
+    apng: 'png',
+    webp: 'webp',
+    webm: 'webm'
+};
+
+/**
+ * Exports in the format of `options`. Failures surface as ExportError
+ * naming the stage that failed; a cancelled export rejects with the
+ * signal's abort reason instead.
+ */
+export const exportAnimation = async (
+    mode: AppMode,
+    frames: FrameData[],
+    spriteConfig: SpriteSheetConfig,
+    layoutConfig: FrameLayoutConfig,
+    playback: PlaybackConfig,
+    fps: number,
+    backgroundColor: string,
+    options: ExportOptions,
+    filters: FrameFilter[],
+    overlays: Overlay[],
+    onProgress: ExportProgressHandler,
+    signal?: AbortSignal
+): Promise<Blob> => {
+    const exporters: Record<ExportFormat, typeof generateGif> = {
+        gif: generateGif,
+        apng: generateApng,
+        webp: generateWebp,
+        webm: generateWebm
+    };
+    const exporter = exporters[options.format];
+
+    let stage: ExportStage = 'loading';
+    const trackProgress: ExportProgressHandler = (current, progress) => {
+        stage = current;
+        onProgress(current, progress);
+    };
+    try {
+        return await exporter(mode, frames, spriteConfig, layoutConfig, playback, fps, backgroundColor, options, filters, overlays, trackProgress, signal);
+    } catch (error) {
+        if (signal?.aborted || error instanceof ExportError) throw error;
+        const detail = error instanceof RangeError
+            ? '内存不足，请缩小输出尺寸或减少帧数'
+            : error instanceof Error ? error.message : String(error);
+        throw new ExportError(`${STAGE_FAILURES[stage]}: ${detail}`, stage, { cause: error });
+    }
 };
 
 export const downloadBlob = (blob: Blob, filename: string) => {
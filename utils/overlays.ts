@@ -0,0 +1,66 @@
+import { ImageOverlay, Overlay, OverlayType, Rect, TextOverlay } from '../types';
+import { createFrameId } from './frameOperations';
+import { ANCHOR_FACTORS } from './frameLayout';
+
+// Captions and watermarks drawn on top of the finished frames. Text is
+// rasterized in the browser, so overlays reach the renderer as ready
+// pixel layers (see createOverlayLayer) and look the same in the player
+// and in every export.
+
+export const OVERLAY_LABELS: Record<OverlayType, string> = {
+  text: '文字',
+  image: '图片水印',
+};
+
+export const OVERLAY_FONTS = ['sans-serif', 'serif', 'monospace', 'Microsoft YaHei', 'PingFang SC', 'SimHei', 'Arial', 'Impact'];
+
+const createOverlayBase = () => ({
+  id: createFrameId(),
+  enabled: true,
+  anchor: 'bottom-right' as const,
+  margin: 8,
+  opacity: 1,
+  fromFrame: 0,
+  toFrame: null,
+});
+
+export const createTextOverlay = (): TextOverlay => ({
+  ...createOverlayBase(),
+  type: 'text',
+  text: '水印文字',
+  fontFamily: 'sans-serif',
+  fontSize: 24,
+  bold: false,
+  color: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 2,
+});
+
+export const createImageOverlay = (name: string, src: string, width: number, height: number): ImageOverlay => ({
+  ...createOverlayBase(),
+  type: 'image',
+  opacity: 0.8,
+  name,
+  src,
+  width,
+  height,
+  scale: 1,
+});
+
+export const isOverlayVisible = (overlay: Overlay, index: number): boolean =>
+  overlay.enabled && index >= overlay.fromFrame && (overlay.toFrame === null || index <= overlay.toFrame);
+
+/**
+ * Top-left corner of a `width x height` overlay anchored inside `area`,
+ * the exported region of the canvas (the crop, or the whole canvas).
+ */
+export const getOverlayPosition = (overlay: Overlay, width: number, height: number, area: Rect): { x: number; y: number } => {
+  const [fx, fy] = ANCHOR_FACTORS[overlay.anchor];
+  // Centered axes ignore the margin, like a centered frame ignores its anchor edges
+  const marginX = fx === 0.5 ? 0 : overlay.margin * (1 - 2 * fx);
+  const marginY = fy === 0.5 ? 0 : overlay.margin * (1 - 2 * fy);
+  return {
+    x: area.x + Math.floor((area.w - width) * fx + marginX),
+    y: area.y + Math.floor((area.h - height) * fy + marginY),
+  };
+};
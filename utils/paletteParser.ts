@@ -0,0 +1,113 @@
+import { PaletteColor } from '../types';
+
+// Palette file readers: GIMP (.gpl), JASC-PAL and RIFF (.pal), and plain
+// hex lists (.hex, one RRGGBB per line as exported by Lospec).
+
+export const PALETTE_FILE_EXTENSIONS = ['.gpl', '.pal', '.hex'];
+
+const MAX_PALETTE_COLORS = 256;
+
+const byte = (value: string): number => {
+  const n = parseInt(value, 10);
+  if (!Number.isFinite(n) || n < 0 || n > 255) throw new Error(`Invalid color component "${value}"`);
+  return n;
+};
+
+const parseGpl = (text: string): PaletteColor[] => {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith('GIMP Palette')) throw new Error('Not a GIMP palette');
+
+  const colors: PaletteColor[] = [];
+  for (const raw of lines.slice(1)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || /^(Name|Columns):/i.test(line)) continue;
+    const [r, g, b] = line.split(/\s+/);
+    colors.push([byte(r), byte(g), byte(b)]);
+  }
+  return colors;
+};
+
+const parseJascPal = (text: string): PaletteColor[] => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const count = parseInt(lines[2], 10);
+  if (!Number.isFinite(count)) throw new Error('Invalid JASC-PAL color count');
+  return lines.slice(3, 3 + count).map(line => {
+    const [r, g, b] = line.split(/\s+/);
+    return [byte(r), byte(g), byte(b)] as PaletteColor;
+  });
+};
+
+// Microsoft RIFF palette: a 'PAL ' form with a 'data' chunk of LOGPALETTE entries
+const parseRiffPal = (data: Uint8Array): PaletteColor[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+  if (data.length < 12 || tag(8) !== 'PAL ') throw new Error('Not a RIFF palette');
+
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (tag(offset) === 'data') {
+      const count = view.getUint16(offset + 10, true);
+      const colors: PaletteColor[] = [];
+      for (let i = 0; i < count; i++) {
+        const entry = offset + 12 + i * 4;
+        if (entry + 3 > data.length) break;
+        colors.push([data[entry], data[entry + 1], data[entry + 2]]);
+      }
+      return colors;
+    }
+    offset += 8 + size + (size & 1);
+  }
+  throw new Error('RIFF palette has no data chunk');
+};
+
+const parseHexList = (text: string): PaletteColor[] => {
+  const colors: PaletteColor[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim().replace(/^#/, '');
+    if (!line || line.startsWith(';')) continue;
+    if (!/^[0-9a-f]{6}$/i.test(line)) throw new Error(`Invalid hex color "${raw.trim()}"`);
+    const value = parseInt(line, 16);
+    colors.push([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+  }
+  return colors;
+};
+
+/**
+ * Reads a palette file, picking the format from its content first and the
+ * file extension second. Duplicate colors are dropped and the list is capped
+ * at 256 entries, the most a GIF color table can hold.
+ */
+export const parsePalette = (fileName: string, data: ArrayBuffer): PaletteColor[] => {
+  const bytes = new Uint8Array(data);
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+
+  let colors: PaletteColor[];
+  if (text.startsWith('RIFF')) {
+    colors = parseRiffPal(bytes);
+  } else if (text.startsWith('GIMP Palette')) {
+    colors = parseGpl(text);
+  } else if (text.startsWith('JASC-PAL')) {
+    colors = parseJascPal(text);
+  } else if (/\.hex$/i.test(fileName) || /^\s*#?[0-9a-f]{6}\s*(\r?\n|$)/i.test(text)) {
+    colors = parseHexList(text);
+  } else {
+    throw new Error('Unsupported palette format');
+  }
+
+  const seen = new Set<string>();
+  const unique = colors.filter(color => {
+    const key = color.join(',');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (unique.length === 0) throw new Error('Palette is empty');
+  return unique.slice(0, MAX_PALETTE_COLORS);
+};
+
+export const paletteToBytes = (colors: PaletteColor[]): Uint8Array => {
+  const bytes = new Uint8Array(colors.length * 3);
+  colors.forEach((color, i) => bytes.set(color, i * 3));
+  return bytes;
+};
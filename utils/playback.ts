@@ -0,0 +1,45 @@
+import { PlaybackConfig } from '../types';
+
+// Frame order shared by the preview loop and every exporter
+
+export const createPlaybackConfig = (): PlaybackConfig => ({
+  direction: 'forward',
+  inPoint: 0,
+  outPoint: null,
+  loopCount: 0,
+});
+
+// The in/out range clamped to `total` frames, inclusive on both ends
+export const getPlaybackRange = (total: number, config: PlaybackConfig): { start: number; end: number } => {
+  const last = Math.max(0, total - 1);
+  const start = Math.max(0, Math.min(last, config.inPoint));
+  const end = Math.max(start, Math.min(last, config.outPoint ?? last));
+  return { start, end };
+};
+
+/**
+ * Frame indices of one loop in play order. Ping-pong goes out and back
+ * without repeating the turning frames, so looping it stays smooth.
+ */
+export const getPlaybackSequence = (total: number, config: PlaybackConfig): number[] => {
+  if (total <= 0) return [];
+  const { start, end } = getPlaybackRange(total, config);
+  const forward: number[] = [];
+  for (let i = start; i <= end; i++) forward.push(i);
+
+  if (config.direction === 'reverse') return forward.reverse();
+  if (config.direction === 'pingpong' && forward.length > 2) {
+    return [...forward, ...forward.slice(1, -1).reverse()];
+  }
+  return forward;
+};
+
+/**
+ * NETSCAPE2.0 stores repetitions after the first play, and a missing block
+ * means a single play. Returns the encoder's `loop` value for a play count:
+ * 0 loops forever, -1 omits the block.
+ */
+export const getGifLoopValue = (loopCount: number): number => {
+  if (loopCount <= 0) return 0;
+  return loopCount === 1 ? -1 : Math.min(0xffff, loopCount - 1);
+};
@@ -0,0 +1,211 @@
+// PNG decoder producing straight (non-premultiplied) RGBA, for every colour
+// type and bit depth, with tRNS transparency and Adam7 interlacing. Browsers
+// and Node decode through the same code, so exports match byte for byte.
+// Colour management chunks (gAMA, iCCP) are ignored.
+
+export interface DecodedPng {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA, width * height * 4
+}
+
+enum ColorType {
+  GRAY = 0,
+  RGB = 2,
+  PALETTE = 3,
+  GRAY_ALPHA = 4,
+  RGBA = 6
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CHANNELS: Record<ColorType, number> = {
+  [ColorType.GRAY]: 1,
+  [ColorType.RGB]: 3,
+  [ColorType.PALETTE]: 1,
+  [ColorType.GRAY_ALPHA]: 2,
+  [ColorType.RGBA]: 4,
+};
+
+// x, y start and step of the seven Adam7 passes
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: ColorType;
+  interlaced: boolean;
+}
+
+export const isPng = (data: Uint8Array): boolean =>
+  data.length >= SIGNATURE.length && SIGNATURE.every((byte, i) => data[i] === byte);
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+// Reverses the per-scanline filters of one (sub-)image in place
+const unfilter = (data: Uint8Array, pos: number, rowBytes: number, rows: number, bpp: number): Uint8Array[] => {
+  const lines: Uint8Array[] = [];
+  let previous = new Uint8Array(rowBytes);
+  for (let y = 0; y < rows; y++) {
+    if (pos + 1 + rowBytes > data.length) throw new Error('Unexpected end of PNG data');
+    const filter = data[pos];
+    const line = data.subarray(pos + 1, pos + 1 + rowBytes);
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bpp ? line[i - bpp] : 0;
+      const up = previous[i];
+      const upLeft = i >= bpp ? previous[i - bpp] : 0;
+      switch (filter) {
+        case 0: break;
+        case 1: line[i] = line[i] + left; break;
+        case 2: line[i] = line[i] + up; break;
+        case 3: line[i] = line[i] + ((left + up) >> 1); break;
+        case 4: line[i] = line[i] + paeth(left, up, upLeft); break;
+        default: throw new Error(`Unknown PNG filter ${filter}`);
+      }
+    }
+    lines.push(line);
+    previous = line;
+    pos += 1 + rowBytes;
+  }
+  return lines;
+};
+
+const readSample = (line: Uint8Array, index: number, bitDepth: number): number => {
+  if (bitDepth === 8) return line[index];
+  if (bitDepth === 16) return (line[index * 2] << 8) | line[index * 2 + 1];
+  const bit = index * bitDepth;
+  return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+};
+
+export const decodePng = async (data: Uint8Array): Promise<DecodedPng> => {
+  if (!isPng(data)) throw new Error('Not a PNG file');
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  let header: PngHeader | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let pos = SIGNATURE.length;
+  while (pos + 8 <= data.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(data[pos + 4], data[pos + 5], data[pos + 6], data[pos + 7]);
+    const start = pos + 8;
+    const body = data.subarray(start, start + length);
+    pos = start + length + 4; // Skip the CRC
+
+    if (type === 'IHDR') {
+      header = {
+        width: view.getUint32(start),
+        height: view.getUint32(start + 4),
+        bitDepth: body[8],
+        colorType: body[9] as ColorType,
+        interlaced: body[12] === 1,
+      };
+      if (!(header.colorType in CHANNELS)) throw new Error(`Unsupported PNG colour type ${header.colorType}`);
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  if (!header) throw new Error('PNG has no header');
+  if (header.colorType === ColorType.PALETTE && !palette) throw new Error('PNG has no palette');
+
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, offset);
+    offset += chunk.length;
+  }
+  const raw = await inflate(compressed);
+
+  const { width, height, bitDepth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const bpp = Math.max(1, (channels * bitDepth) >> 3);
+  const maxSample = (1 << bitDepth) - 1;
+  const to8 = (value: number) => (bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxSample));
+  // tRNS holds one 16-bit sample per channel for grey and RGB images
+  const transparentSample = (channel: number) =>
+    transparency && colorType !== ColorType.PALETTE ? (transparency[channel * 2] << 8) | transparency[channel * 2 + 1] : -1;
+  const transparentGray = transparentSample(0);
+  const transparentRgb = [transparentSample(0), transparentSample(1), transparentSample(2)];
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const writePixel = (line: Uint8Array, x: number, target: number) => {
+    const s = x * channels;
+    let r: number;
+    let g: number;
+    let b: number;
+    let a = 255;
+    if (colorType === ColorType.PALETTE) {
+      const index = readSample(line, s, bitDepth);
+      r = palette![index * 3];
+      g = palette![index * 3 + 1];
+      b = palette![index * 3 + 2];
+      if (transparency && index < transparency.length) a = transparency[index];
+    } else if (colorType === ColorType.GRAY || colorType === ColorType.GRAY_ALPHA) {
+      const gray = readSample(line, s, bitDepth);
+      r = g = b = to8(gray);
+      if (colorType === ColorType.GRAY_ALPHA) a = to8(readSample(line, s + 1, bitDepth));
+      else if (gray === transparentGray) a = 0;
+    } else {
+      const rs = readSample(line, s, bitDepth);
+      const gs = readSample(line, s + 1, bitDepth);
+      const bs = readSample(line, s + 2, bitDepth);
+      r = to8(rs);
+      g = to8(gs);
+      b = to8(bs);
+      if (colorType === ColorType.RGBA) a = to8(readSample(line, s + 3, bitDepth));
+      else if (rs === transparentRgb[0] && gs === transparentRgb[1] && bs === transparentRgb[2]) a = 0;
+    }
+    pixels[target] = r;
+    pixels[target + 1] = g;
+    pixels[target + 2] = b;
+    pixels[target + 3] = a;
+  };
+
+  const passes = header.interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  let rawPos = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+    const rowBytes = Math.ceil((passWidth * channels * bitDepth) / 8);
+    const lines = unfilter(raw, rawPos, rowBytes, passHeight, bpp);
+    rawPos += passHeight * (rowBytes + 1);
+    lines.forEach((line, py) => {
+      const y = y0 + py * dy;
+      for (let px = 0; px < passWidth; px++) {
+        writePixel(line, px, (y * width + x0 + px * dx) * 4);
+      }
+    });
+  }
+
+  return { width, height, pixels };
+};
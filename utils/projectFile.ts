@@ -0,0 +1,190 @@
+import {
+  AppMode,
+  ExportOptions,
+  FrameData,
+  FrameFilter,
+  FrameLayoutConfig,
+  FrameOffset,
+  OnionSkinConfig,
+  Overlay,
+  PlaybackConfig,
+  SpriteSheetConfig,
+  SpriteSheetExportOptions,
+} from '../types';
+import { createFrameId } from './frameOperations';
+import { createImageUrl } from './imageCache';
+import { readFileAsDataURL } from './imageUtils';
+import { createSpriteConfig } from './spriteSlicing';
+
+// A project is one JSON document: every image once as a data URL, frames
+// and the sprite sheet referencing them by index, plus all settings. The
+// autosaved session uses the same layout with images kept elsewhere.
+
+export const PROJECT_FILE_EXTENSION = '.gifproj';
+
+const PROJECT_FORMAT = 'gif-sequence-project';
+const PROJECT_VERSION = 1;
+
+export interface ProjectSettings {
+  fps: number;
+  backgroundColor: string;
+  exportOptions: ExportOptions;
+  sheetOptions: SpriteSheetExportOptions;
+  layoutConfig: FrameLayoutConfig;
+  playback: PlaybackConfig;
+  filters: FrameFilter[];
+  overlays: Overlay[];
+  onionSkin: OnionSkinConfig;
+}
+
+export interface ProjectState {
+  mode: AppMode;
+  frames: FrameData[];
+  spriteConfig: SpriteSheetConfig;
+  settings: ProjectSettings;
+}
+
+export interface ProjectImageSize {
+  width: number;
+  height: number;
+}
+
+export interface ProjectImage extends ProjectImageSize {
+  name: string;
+  type: string;
+  url: string; // Data URL
+}
+
+export interface ProjectFrame {
+  id?: string; // Kept so frame filters still find their frames, missing in older projects
+  image: number; // Index into ProjectFile.images
+  duration?: number;
+  offset?: FrameOffset;
+}
+
+export interface ProjectFile<Image = ProjectImage> {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  mode: AppMode;
+  images: Image[];
+  frames: ProjectFrame[];
+  spriteConfig: Omit<SpriteSheetConfig, 'originalImage'> & { originalImage: number | null };
+  settings: ProjectSettings;
+}
+
+/**
+ * Bundles the current state into a project, with `toImage` storing each
+ * image. Frames that share an image (e.g. timeline copies) store it only once.
+ */
+export const createProject = async <Image>(
+  state: ProjectState,
+  toImage: (frame: FrameData) => Promise<Image>
+): Promise<ProjectFile<Image>> => {
+  const images: Image[] = [];
+  const imageIndices = new Map<string, number>();
+
+  const addImage = async (frame: FrameData): Promise<number> => {
+    const known = imageIndices.get(frame.url);
+    if (known !== undefined) return known;
+    images.push(await toImage(frame));
+    imageIndices.set(frame.url, images.length - 1);
+    return images.length - 1;
+  };
+
+  const frames: ProjectFrame[] = [];
+  for (const frame of state.frames) {
+    frames.push({ id: frame.id, image: await addImage(frame), duration: frame.duration, offset: frame.offset });
+  }
+  const { originalImage, ...spriteConfig } = state.spriteConfig;
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    mode: state.mode,
+    images,
+    frames,
+    spriteConfig: { ...spriteConfig, originalImage: originalImage ? await addImage(originalImage) : null },
+    settings: state.settings,
+  };
+};
+
+// The base64 copies are made here, for a download only, and not kept around
+export const createProjectFile = (state: ProjectState): Promise<ProjectFile> =>
+  createProject(state, async (frame): Promise<ProjectImage> => ({
+    name: frame.file.name,
+    type: frame.file.type,
+    url: frame.url.startsWith('data:') ? frame.url : await readFileAsDataURL(frame.file),
+    width: frame.width,
+    height: frame.height,
+  }));
+
+// Validates the parts the app relies on; settings are merged over defaults by the caller
+export const parseProjectFile = (text: string): ProjectFile => {
+  const data = JSON.parse(text);
+  if (
+    !data ||
+    data.format !== PROJECT_FORMAT ||
+    !Array.isArray(data.images) ||
+    !Array.isArray(data.frames) ||
+    typeof data.spriteConfig !== 'object'
+  ) {
+    throw new Error("Not a project file");
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new Error("Unsupported project version");
+  }
+  return { ...data, settings: data.settings ?? {} } as ProjectFile;
+};
+
+export const hasProjectContent = (project: ProjectFile<unknown>): boolean =>
+  project.frames.length > 0 || project.spriteConfig.originalImage !== null;
+
+const dataUrlToFile = async (image: ProjectImage): Promise<File> => {
+  const blob = await (await fetch(image.url)).blob();
+  return new File([blob], image.name, { type: image.type || blob.type });
+};
+
+// Rebuilds frames with their saved ids (fresh ones for older projects) and the File objects `toFile` loads
+export const loadProject = async <Image extends ProjectImageSize>(
+  project: ProjectFile<Image>,
+  toFile: (image: Image) => Promise<File>
+): Promise<ProjectState> => {
+  const images = await Promise.all(project.images.map(async (image): Promise<FrameData> => {
+    const file = await toFile(image);
+    return {
+      id: createFrameId(),
+      url: createImageUrl(file),
+      file,
+      width: image.width,
+      height: image.height,
+    };
+  }));
+
+  const getImage = (index: number): FrameData => {
+    const image = images[index];
+    if (!image) throw new Error("Missing project image");
+    return image;
+  };
+
+  const frames = project.frames.map((frame): FrameData => ({
+    ...getImage(frame.image),
+    id: frame.id ?? createFrameId(),
+    duration: frame.duration,
+    offset: frame.offset,
+  }));
+  const { originalImage, ...spriteConfig } = project.spriteConfig;
+
+  return {
+    mode: project.mode,
+    frames,
+    // Fields added after the project was saved keep their defaults
+    spriteConfig: {
+      ...createSpriteConfig(null),
+      ...spriteConfig,
+      originalImage: originalImage !== null ? getImage(originalImage) : null,
+    },
+    settings: project.settings,
+  };
+};
+
+export const restoreProject = (project: ProjectFile): Promise<ProjectState> => loadProject(project, dataUrlToFile);
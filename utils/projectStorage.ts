@@ -0,0 +1,128 @@
+import { createFrameId } from './frameOperations';
+import { createProject, loadProject, ProjectFile, ProjectState } from './projectFile';
+
+// Autosaved session in IndexedDB, restored after a reload or crash. Each
+// image file is written once to its own store; an autosave after an edit
+// only rewrites the small record of frames and settings that refers to them.
+
+const DB_NAME = 'gif-sequence-composer';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const IMAGE_STORE = 'images';
+const SESSION_KEY = 'autosave';
+
+export interface SessionImage {
+  key: string; // Into the image store
+  width: number;
+  height: number;
+}
+
+export interface StoredSession {
+  project: ProjectFile<SessionImage>;
+  savedAt: number; // ms timestamp
+}
+
+// Image store key of each file, so files keep their stored copy between saves
+const imageKeys = new WeakMap<File, string>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error("IndexedDB unavailable"));
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    // A session is disposable, so one in an older layout is simply dropped
+    const db = request.result;
+    Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name));
+    db.createObjectStore(SESSION_STORE);
+    db.createObjectStore(IMAGE_STORE);
+  };
+  return requestToPromise(request);
+};
+
+const withDatabase = async <T>(run: (db: IDBDatabase) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await run(db);
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Writes the session record, adds the files the image store is missing and
+ * drops the ones no frame refers to anymore, all in one transaction.
+ */
+export const saveSession = async (state: ProjectState): Promise<void> => {
+  const files = new Map<string, File>();
+  const project = await createProject(state, async (frame): Promise<SessionImage> => {
+    let key = imageKeys.get(frame.file);
+    if (!key) {
+      key = createFrameId();
+      imageKeys.set(frame.file, key);
+    }
+    files.set(key, frame.file);
+    return { key, width: frame.width, height: frame.height };
+  });
+
+  await withDatabase(db => {
+    const transaction = db.transaction([SESSION_STORE, IMAGE_STORE], 'readwrite');
+    const images = transaction.objectStore(IMAGE_STORE);
+    const keysRequest = images.getAllKeys();
+    keysRequest.onsuccess = () => {
+      const stored = new Set(keysRequest.result);
+      files.forEach((file, key) => {
+        if (!stored.has(key)) images.put(file, key);
+      });
+      stored.forEach(key => {
+        if (typeof key !== 'string' || !files.has(key)) images.delete(key);
+      });
+    };
+    transaction.objectStore(SESSION_STORE).put({ project, savedAt: Date.now() } satisfies StoredSession, SESSION_KEY);
+    return transactionToPromise(transaction);
+  });
+};
+
+// Only the session record; the image files are read when it is restored
+export const loadSession = (): Promise<StoredSession | null> =>
+  withDatabase(async db => {
+    const request = db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(SESSION_KEY);
+    const session: StoredSession | undefined = await requestToPromise(request);
+    return session ?? null;
+  });
+
+export const restoreSession = async (session: StoredSession): Promise<ProjectState> => {
+  const files = await withDatabase(db => {
+    const images = db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE);
+    return Promise.all(session.project.images.map(image => requestToPromise<File | undefined>(images.get(image.key))));
+  });
+  const filesByKey = new Map(session.project.images.map((image, index) => [image.key, files[index]]));
+
+  return loadProject(session.project, async image => {
+    const file = filesByKey.get(image.key);
+    if (!file) throw new Error("Missing session image");
+    imageKeys.set(file, image.key);
+    return file;
+  });
+};
+
+export const clearSession = (): Promise<void> =>
+  withDatabase(db => {
+    const transaction = db.transaction([SESSION_STORE, IMAGE_STORE], 'readwrite');
+    transaction.objectStore(SESSION_STORE).clear();
+    transaction.objectStore(IMAGE_STORE).clear();
+    return transactionToPromise(transaction);
+  });
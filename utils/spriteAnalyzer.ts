@@ -0,0 +1,255 @@
+import { Rect } from '../types';
+
+// Sprite sheet analysis on raw RGBA pixels: background detection, uniform
+// grid suggestions from empty gutters, and per-sprite bounding boxes for
+// irregularly packed sheets. DOM-free so it can also run in a worker.
+
+export interface SpriteGridSuggestion {
+  rows: number;
+  cols: number;
+  frameCount: number; // Non-empty cells
+  emptyCells: number[]; // Row-major indices of cells with no content
+}
+
+export interface SpriteSheetAnalysis {
+  background: 'transparent' | [number, number, number];
+  grid: SpriteGridSuggestion | null;
+  bounds: Rect[]; // Sprite bounding boxes in reading order
+}
+
+export interface SpriteAnalyzerOptions {
+  alphaThreshold?: number; // Pixels at or below this alpha count as background
+  colorTolerance?: number; // Max per-channel difference to a solid background
+  mergeGap?: number; // Boxes closer than this many px are one sprite
+  minPixels?: number; // Smaller specks are ignored
+}
+
+interface Segment {
+  start: number;
+  end: number; // Exclusive
+}
+
+const buildContentMask = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  alphaThreshold: number,
+  colorTolerance: number
+): { mask: Uint8Array; background: SpriteSheetAnalysis['background'] } => {
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(i => i * 4);
+  const transparentCorners = corners.filter(p => pixels[p + 3] <= alphaThreshold).length;
+
+  let background: SpriteSheetAnalysis['background'] = 'transparent';
+  if (transparentCorners < 2) {
+    const [r, g, b] = [pixels[corners[0]], pixels[corners[0] + 1], pixels[corners[0] + 2]];
+    const agreeing = corners.filter(p =>
+      Math.abs(pixels[p] - r) <= colorTolerance &&
+      Math.abs(pixels[p + 1] - g) <= colorTolerance &&
+      Math.abs(pixels[p + 2] - b) <= colorTolerance
+    ).length;
+    if (agreeing >= 3) background = [r, g, b];
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    const p = i * 4;
+    if (pixels[p + 3] <= alphaThreshold) continue;
+    if (background !== 'transparent' &&
+      Math.abs(pixels[p] - background[0]) <= colorTolerance &&
+      Math.abs(pixels[p + 1] - background[1]) <= colorTolerance &&
+      Math.abs(pixels[p + 2] - background[2]) <= colorTolerance) {
+      continue;
+    }
+    mask[i] = 1;
+  }
+
+  return { mask, background };
+};
+
+const findSegments = (filled: boolean[]): Segment[] => {
+  const segments: Segment[] = [];
+  let start = -1;
+  filled.forEach((value, i) => {
+    if (value && start === -1) start = i;
+    if (!value && start !== -1) {
+      segments.push({ start, end: i });
+      start = -1;
+    }
+  });
+  if (start !== -1) segments.push({ start, end: filled.length });
+  return segments;
+};
+
+// Number of evenly spaced cells along one axis, from the spacing of content runs
+const estimateCount = (segments: Segment[], length: number): number => {
+  if (segments.length < 2) return 1;
+  const centers = segments.map(s => (s.start + s.end) / 2);
+  const gaps = centers.slice(1).map((c, i) => c - centers[i]).sort((a, b) => a - b);
+  const pitch = gaps[Math.floor(gaps.length / 2)];
+  return Math.max(segments.length, Math.round(length / pitch));
+};
+
+const suggestGrid = (mask: Uint8Array, width: number, height: number): SpriteGridSuggestion | null => {
+  const colFilled: boolean[] = new Array(width).fill(false);
+  const rowFilled: boolean[] = new Array(height).fill(false);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) {
+        colFilled[x] = true;
+        rowFilled[y] = true;
+      }
+    }
+  }
+
+  const colSegments = findSegments(colFilled);
+  const rowSegments = findSegments(rowFilled);
+  if (colSegments.length === 0 || rowSegments.length === 0) return null;
+
+  const cols = estimateCount(colSegments, width);
+  const rows = estimateCount(rowSegments, height);
+  const cellW = Math.floor(width / cols);
+  const cellH = Math.floor(height / rows);
+
+  const emptyCells: number[] = [];
+  for (let cell = 0; cell < rows * cols; cell++) {
+    const x0 = (cell % cols) * cellW;
+    const y0 = Math.floor(cell / cols) * cellH;
+    let empty = true;
+    for (let y = y0; y < y0 + cellH && empty; y++) {
+      for (let x = x0; x < x0 + cellW; x++) {
+        if (mask[y * width + x]) {
+          empty = false;
+          break;
+        }
+      }
+    }
+    if (empty) emptyCells.push(cell);
+  }
+
+  return { rows, cols, frameCount: rows * cols - emptyCells.length, emptyCells };
+};
+
+const rectsTouch = (a: Rect, b: Rect, gap: number): boolean =>
+  a.x - gap < b.x + b.w && b.x - gap < a.x + a.w &&
+  a.y - gap < b.y + b.h && b.y - gap < a.y + a.h;
+
+const unionRect = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    w: Math.max(a.x + a.w, b.x + b.w) - x,
+    h: Math.max(a.y + a.h, b.y + b.h) - y,
+  };
+};
+
+const findBounds = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  mergeGap: number,
+  minPixels: number
+): Rect[] => {
+  const visited = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let boxes: { rect: Rect; pixels: number }[] = [];
+
+  // 8-connected flood fill per component
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    let minX = width, minY = height, maxX = 0, maxY = 0, count = 0;
+
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+      count++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const n = ny * width + nx;
+          if (mask[n] && !visited[n]) {
+            visited[n] = 1;
+            stack[top++] = n;
+          }
+        }
+      }
+    }
+
+    boxes.push({ rect: { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 }, pixels: count });
+  }
+
+  // Merge detached parts of the same sprite (e.g. a floating sword) until stable.
+  // Each pass sweeps left to right and only compares a box with the boxes still
+  // reaching its left edge, so sheets with many specks of noise stay fast.
+  let merged = true;
+  while (merged) {
+    merged = false;
+    boxes.sort((a, b) => a.rect.x - b.rect.x);
+    const next: typeof boxes = [];
+    let active: typeof boxes = [];
+    for (const box of boxes) {
+      active = active.filter(other => other.rect.x + other.rect.w + mergeGap > box.rect.x);
+      const target = active.find(other => rectsTouch(other.rect, box.rect, mergeGap));
+      if (target) {
+        target.rect = unionRect(target.rect, box.rect);
+        target.pixels += box.pixels;
+        merged = true;
+      } else {
+        const copy = { ...box };
+        next.push(copy);
+        active.push(copy);
+      }
+    }
+    boxes = next;
+  }
+
+  const rects = boxes.filter(b => b.pixels >= minPixels).map(b => b.rect);
+
+  // Reading order: group into rows by vertical overlap, then left to right
+  rects.sort((a, b) => a.y - b.y);
+  const rows: Rect[][] = [];
+  for (const rect of rects) {
+    const row = rows[rows.length - 1];
+    const rowBottom = row ? Math.max(...row.map(r => r.y + r.h)) : -1;
+    if (row && rect.y + rect.h / 2 < rowBottom) {
+      row.push(rect);
+    } else {
+      rows.push([rect]);
+    }
+  }
+  return rows.flatMap(row => row.sort((a, b) => a.x - b.x));
+};
+
+export const analyzeSpriteSheet = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: SpriteAnalyzerOptions = {}
+): SpriteSheetAnalysis => {
+  const { mask, background } = buildContentMask(
+    pixels,
+    width,
+    height,
+    options.alphaThreshold ?? 16,
+    options.colorTolerance ?? 24
+  );
+
+  return {
+    background,
+    grid: suggestGrid(mask, width, height),
+    bounds: findBounds(mask, width, height, options.mergeGap ?? 2, options.minPixels ?? 4),
+  };
+};
@@ -0,0 +1,111 @@
+import { AtlasFormat, Rect, SpriteSheetExportOptions } from '../types';
+
+export interface SpriteSheetLayout {
+  width: number;
+  height: number;
+  cellWidth: number;
+  cellHeight: number;
+  cells: Rect[]; // Content rect of each frame's cell, excluding extrusion
+}
+
+export interface AtlasFrameInfo {
+  name: string;
+  duration: number; // ms
+}
+
+const nextPowerOfTwo = (value: number): number => {
+  let size = 1;
+  while (size < value) size *= 2;
+  return size;
+};
+
+/**
+ * Grid placement for a sprite sheet. Every cell is `cellWidth x cellHeight`
+ * and is surrounded by `extrude` pixels of repeated edge plus `padding`
+ * pixels of empty space, both between cells and around the border.
+ */
+export const layoutSpriteSheet = (
+  count: number,
+  cellWidth: number,
+  cellHeight: number,
+  options: Pick<SpriteSheetExportOptions, 'cols' | 'padding' | 'extrude' | 'powerOfTwo'>
+): SpriteSheetLayout => {
+  const cols = Math.max(1, Math.min(options.cols, count));
+  const rows = Math.ceil(count / cols);
+  const padding = Math.max(0, options.padding);
+  const extrude = Math.max(0, options.extrude);
+
+  const strideX = cellWidth + extrude * 2 + padding;
+  const strideY = cellHeight + extrude * 2 + padding;
+
+  const cells: Rect[] = [];
+  for (let i = 0; i < count; i++) {
+    cells.push({
+      x: padding + (i % cols) * strideX + extrude,
+      y: padding + Math.floor(i / cols) * strideY + extrude,
+      w: cellWidth,
+      h: cellHeight,
+    });
+  }
+
+  let width = padding + cols * strideX;
+  let height = padding + rows * strideY;
+  if (options.powerOfTwo) {
+    width = nextPowerOfTwo(width);
+    height = nextPowerOfTwo(height);
+  }
+
+  return { width, height, cellWidth, cellHeight, cells };
+};
+
+const frameEntry = (cell: Rect) => ({
+  frame: { x: cell.x, y: cell.y, w: cell.w, h: cell.h },
+  rotated: false,
+  trimmed: false,
+  spriteSourceSize: { x: 0, y: 0, w: cell.w, h: cell.h },
+  sourceSize: { w: cell.w, h: cell.h },
+});
+
+/**
+ * Serializes a layout as a JSON atlas. 'hash' and 'array' follow the
+ * TexturePacker JSON (Hash) / JSON (Array) formats, 'phaser' the Phaser 3
+ * multi-atlas format. Frame durations are included for tools that read them.
+ */
+export const buildAtlas = (
+  layout: SpriteSheetLayout,
+  frames: AtlasFrameInfo[],
+  format: AtlasFormat,
+  imageName: string
+): string => {
+  const size = { w: layout.width, h: layout.height };
+  const meta = {
+    app: 'GIF序列帧合成器',
+    version: '1.0',
+    image: imageName,
+    format: 'RGBA8888',
+    size,
+    scale: '1',
+  };
+
+  const entries = frames.map((info, i) => ({
+    filename: info.name,
+    ...frameEntry(layout.cells[i]),
+    duration: Math.round(info.duration),
+  }));
+
+  let atlas: object;
+  if (format === 'hash') {
+    const hash: Record<string, object> = {};
+    for (const { filename, ...entry } of entries) hash[filename] = entry;
+    atlas = { frames: hash, meta };
+  } else if (format === 'array') {
+    atlas = { frames: entries, meta };
+  } else {
+    atlas = {
+      textures: [{ image: imageName, format: 'RGBA8888', size, scale: 1, frames: entries }],
+      meta: { app: meta.app, version: meta.version },
+    };
+  }
+
+  return JSON.stringify(atlas, null, 2);
+};
@@ -0,0 +1,143 @@
+import { AtlasFrame, FrameData, Rect, SpriteSheetConfig } from '../types';
+import { getAtlasTagFrames } from './atlasParser';
+
+export const createSpriteConfig = (originalImage: FrameData | null): SpriteSheetConfig => ({
+  rows: 1,
+  cols: 1,
+  totalFrames: 1,
+  originalImage,
+  margin: 0,
+  spacing: 0,
+  startOffset: 0,
+  cellWidth: 0,
+  cellHeight: 0,
+  order: 'row',
+  sequence: null,
+  regions: null,
+  atlas: null,
+  atlasTag: null,
+});
+
+/**
+ * Cell size in px. Explicit sizes win; otherwise the area inside the margin
+ * is divided evenly with `spacing` between cells.
+ */
+export const getSpriteCellSize = (config: SpriteSheetConfig): { width: number; height: number } => {
+  const image = config.originalImage;
+  if (!image) return { width: 0, height: 0 };
+
+  const auto = (length: number, count: number) =>
+    Math.max(1, Math.floor((length - config.margin * 2 - config.spacing * (count - 1)) / count));
+
+  return {
+    width: config.cellWidth > 0 ? config.cellWidth : auto(image.width, config.cols),
+    height: config.cellHeight > 0 ? config.cellHeight : auto(image.height, config.rows),
+  };
+};
+
+export const getSpriteCellCount = (config: SpriteSheetConfig): number => config.rows * config.cols;
+
+// Source rect of a grid cell, addressed by its index in reading order
+export const getSpriteCellRect = (config: SpriteSheetConfig, cellIndex: number): Rect => {
+  const { width, height } = getSpriteCellSize(config);
+  const col = config.order === 'row' ? cellIndex % config.cols : Math.floor(cellIndex / config.rows);
+  const row = config.order === 'row' ? Math.floor(cellIndex / config.cols) : cellIndex % config.rows;
+  return {
+    x: config.margin + col * (width + config.spacing),
+    y: config.margin + row * (height + config.spacing),
+    w: width,
+    h: height,
+  };
+};
+
+// Cell indices that make up the animation, in playback order
+export const getSpriteSequence = (config: SpriteSheetConfig): number[] => {
+  if (config.sequence) return config.sequence;
+  const available = Math.max(0, getSpriteCellCount(config) - config.startOffset);
+  const count = Math.min(config.totalFrames, available);
+  return Array.from({ length: count }, (_, i) => config.startOffset + i);
+};
+
+// Atlas frame indices in playback order, following the selected tag
+export const getAtlasSequence = (config: SpriteSheetConfig): number[] => {
+  if (!config.atlas) return [];
+  const tag = config.atlas.tags.find(t => t.name === config.atlasTag);
+  if (tag) return getAtlasTagFrames(tag);
+  return config.atlas.frames.map((_, i) => i);
+};
+
+const getAtlasFrame = (config: SpriteSheetConfig, frameIndex: number): AtlasFrame | null => {
+  const sequence = getAtlasSequence(config);
+  if (!config.atlas || sequence.length === 0) return null;
+  return config.atlas.frames[sequence[frameIndex % sequence.length]] ?? null;
+};
+
+export const getSpriteFrameCount = (config: SpriteSheetConfig): number => {
+  if (!config.originalImage) return 0;
+  if (config.atlas) return getAtlasSequence(config).length;
+  return config.regions ? config.regions.length : getSpriteSequence(config).length;
+};
+
+// Duration stored with the frame itself (atlas JSON), if any
+export const getSpriteFrameDuration = (config: SpriteSheetConfig, frameIndex: number): number | undefined =>
+  getAtlasFrame(config, frameIndex)?.duration;
+
+export const getSpriteFrameRect = (config: SpriteSheetConfig, frameIndex: number): Rect | null => {
+  if (config.atlas) return getAtlasFrame(config, frameIndex)?.frame ?? null;
+  if (config.regions) {
+    return config.regions.length > 0 ? config.regions[frameIndex % config.regions.length] : null;
+  }
+  const sequence = getSpriteSequence(config);
+  if (sequence.length === 0) return null;
+  return getSpriteCellRect(config, sequence[frameIndex % sequence.length]);
+};
+
+// Output frame size: the cell size, the largest free-form region, or the
+// largest untrimmed atlas source size
+export interface SpriteFramePlacement {
+  width: number; // Logical frame size, before any atlas trimming
+  height: number;
+  source: Rect; // Rect on the sheet, w/h unrotated
+  x: number; // Destination position inside the logical frame
+  y: number;
+  rotated: boolean; // Source is stored rotated 90° clockwise
+}
+
+// Where a frame is cut from the sheet and drawn inside its own logical
+// frame; trimmed atlas sprites are put back at their original offset
+export const getSpriteFramePlacement = (config: SpriteSheetConfig, frameIndex: number): SpriteFramePlacement | null => {
+  if (config.atlas) {
+    const frame = getAtlasFrame(config, frameIndex);
+    if (!frame) return null;
+    return {
+      width: frame.sourceSize.w,
+      height: frame.sourceSize.h,
+      source: frame.frame,
+      x: frame.spriteSourceSize.x,
+      y: frame.spriteSourceSize.y,
+      rotated: frame.rotated,
+    };
+  }
+
+  const source = getSpriteFrameRect(config, frameIndex);
+  if (!source) return null;
+  return { width: source.w, height: source.h, source, x: 0, y: 0, rotated: false };
+};
+
+export const drawSpriteFrame = (
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  placement: SpriteFramePlacement
+) => {
+  const { source, x, y } = placement;
+  if (!placement.rotated) {
+    ctx.drawImage(image, source.x, source.y, source.w, source.h, x, y, source.w, source.h);
+    return;
+  }
+  // The sheet holds an h x w region; turn it back 90° counter-clockwise
+  ctx.save();
+  ctx.translate(x, y + source.h);
+  ctx.rotate(-Math.PI / 2);
+  ctx.drawImage(image, source.x, source.y, source.h, source.w, 0, 0, source.h, source.w);
+  ctx.restore();
+};
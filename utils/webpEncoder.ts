@@ -0,0 +1,113 @@
+// Animated WebP container writer. Frames arrive as still WebP files (as
+// produced by the browser's canvas encoder); their VP8/VP8L/ALPH bitstreams
+// are lifted out and wrapped in ANMF chunks behind VP8X/ANIM headers.
+
+export interface WebpFrame {
+  data: Uint8Array; // A complete still .webp file
+  delay: number; // ms
+}
+
+export interface WebpEncoderOptions {
+  width: number;
+  height: number;
+  loop?: number; // 0 loops forever
+  background?: [number, number, number, number]; // RGBA hint for players
+}
+
+interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+const fourcc = (data: Uint8Array, offset: number) =>
+  String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+
+const readChunks = (file: Uint8Array): RiffChunk[] => {
+  if (file.length < 12 || fourcc(file, 0) !== 'RIFF' || fourcc(file, 8) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= file.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc: fourcc(file, offset), data: file.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const uint24 = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+const writeChunk = (type: string, data: ArrayLike<number>): Uint8Array => {
+  const padded = data.length + (data.length & 1);
+  const out = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) out[i] = type.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// The image bitstream chunks of a still WebP, ready to embed in ANMF
+const extractImageChunks = (file: Uint8Array): { chunks: Uint8Array[]; hasAlpha: boolean } => {
+  const chunks = readChunks(file);
+  const alpha = chunks.find(c => c.fourcc === 'ALPH');
+  const image = chunks.find(c => c.fourcc === 'VP8 ' || c.fourcc === 'VP8L');
+  if (!image) throw new Error('WebP frame has no image data');
+
+  const out: Uint8Array[] = [];
+  if (alpha && image.fourcc === 'VP8 ') out.push(writeChunk('ALPH', alpha.data));
+  out.push(writeChunk(image.fourcc, image.data));
+
+  // VP8L carries alpha in its header (bit 28 of the size/flags word)
+  const vp8lAlpha = image.fourcc === 'VP8L' && image.data.length >= 5 && (image.data[4] & 0x10) !== 0;
+  return { chunks: out, hasAlpha: Boolean(alpha) || vp8lAlpha };
+};
+
+export const encodeAnimatedWebp = (frames: WebpFrame[], options: WebpEncoderOptions): Uint8Array => {
+  const { width, height } = options;
+  if (frames.length === 0) throw new Error('No frames to encode');
+
+  let hasAlpha = false;
+  const anmf = frames.map(frame => {
+    const image = extractImageChunks(frame.data);
+    hasAlpha = hasAlpha || image.hasAlpha;
+    const duration = Math.max(0, Math.min(0xffffff, Math.round(frame.delay)));
+    const header = [
+      ...uint24(0), // X / 2
+      ...uint24(0), // Y / 2
+      ...uint24(width - 1),
+      ...uint24(height - 1),
+      ...uint24(duration),
+      0x02, // Do not blend with the previous frame, no disposal
+    ];
+    return writeChunk('ANMF', concat([new Uint8Array(header), ...image.chunks]));
+  });
+
+  const vp8x = writeChunk('VP8X', [
+    0x02 | (hasAlpha ? 0x10 : 0), // Animation + alpha flags
+    0, 0, 0,
+    ...uint24(width - 1),
+    ...uint24(height - 1),
+  ]);
+
+  const [r, g, b, a] = options.background ?? [0, 0, 0, 0];
+  const loop = options.loop ?? 0;
+  const anim = writeChunk('ANIM', [b, g, r, a, loop & 0xff, (loop >> 8) & 0xff]);
+
+  const body = concat([new TextEncoder().encode('WEBP'), vp8x, anim, ...anmf]);
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat([header, body]);
+};
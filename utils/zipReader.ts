@@ -0,0 +1,103 @@
+// Minimal ZIP archive reader: walks the central directory and extracts
+// stored or deflated entries. Deflate goes through DecompressionStream, so
+// no bundled inflater is needed. ZIP64 and encryption are not supported.
+
+export interface ZipEntry {
+  path: string; // Full path inside the archive, '/'-separated
+  data: Uint8Array;
+  lastModified: number; // ms timestamp
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const lowest = Math.max(0, view.byteLength - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let pos = view.byteLength - EOCD_MIN_SIZE; pos >= lowest; pos--) {
+    if (view.getUint32(pos, true) === EOCD_SIGNATURE) return pos;
+  }
+  throw new Error('Not a ZIP archive');
+};
+
+// Archives from Chinese Windows tools store GBK names without the UTF-8 flag
+const decodeName = (bytes: Uint8Array, utf8: boolean): string => {
+  if (utf8) return new TextDecoder().decode(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('gbk').decode(bytes);
+  }
+};
+
+const dosDateTimeToMs = (date: number, time: number): number =>
+  new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Extracts every file entry of a ZIP archive. `include` filters by path
+ * before anything is decompressed.
+ */
+export const readZip = async (buffer: ArrayBuffer, include: (path: string) => boolean = () => true): Promise<ZipEntry[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  if (pos === 0xffffffff || entryCount === 0xffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(pos, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP central directory');
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const time = view.getUint16(pos + 12, true);
+    const date = view.getUint16(pos + 14, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const path = decodeName(bytes.subarray(pos + 46, pos + 46 + nameLength), (flags & FLAG_UTF8) !== 0);
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || !include(path)) continue;
+    if (flags & FLAG_ENCRYPTED) throw new Error('Encrypted ZIP entries are not supported');
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+    // Local headers repeat name and extra field, possibly with other lengths
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error('Corrupt ZIP local header');
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      data = compressed.slice();
+    } else if (method === METHOD_DEFLATE) {
+      data = await inflateRaw(compressed);
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+    entries.push({ path, data, lastModified: dosDateTimeToMs(date, time) });
+  }
+  return entries;
+};